@@ -0,0 +1,296 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type express from "express";
+
+/**
+ * `viewer` reads docs and runs, `editor` also changes docs, `run-launcher`
+ * also plans and runs, and `admin` can do everything including managing users.
+ */
+export type UserRole = "viewer" | "editor" | "run-launcher" | "admin";
+
+/** Lowest to highest; each role includes the ones before it. */
+export const USER_ROLES: UserRole[] = ["viewer", "editor", "run-launcher", "admin"];
+
+export type User = {
+  id: string;
+  username: string;
+  roles: UserRole[];
+  createdAt: string;
+};
+
+export type ApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+type StoredUser = User & { passwordHash: string };
+type StoredToken = ApiToken & { tokenHash: string };
+type StoredSession = { tokenHash: string; userId: string; expiresAt: string };
+
+type AuthState = {
+  users: StoredUser[];
+  tokens: StoredToken[];
+  sessions: StoredSession[];
+};
+
+export type AuthStore = ReturnType<typeof createAuthStore>;
+
+export const SESSION_COOKIE = "mvp_session";
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+const API_TOKEN_PREFIX = "mvp_";
+/** A token's `lastUsedAt` is written at most this often. */
+const TOKEN_USE_RESOLUTION_MS = 60 * 1000;
+
+const deriveKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, 64, (error, key) => (error ? reject(error) : resolve(key)))
+  );
+
+const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt:${salt.toString("base64")}:${key.toString("base64")}`;
+};
+
+const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, salt, expected] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !expected) {
+    return false;
+  }
+  const key = await deriveKey(password, Buffer.from(salt, "base64"));
+  const expectedKey = Buffer.from(expected, "base64");
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+};
+
+/** Session ids and API tokens are stored as hashes, so the auth file holds no usable secret. */
+const hashSecret = (secret: string) => createHash("sha256").update(secret).digest("hex");
+
+const newSecret = () => randomBytes(32).toString("base64url");
+
+const toUser = ({ passwordHash: _passwordHash, ...user }: StoredUser): User => user;
+
+const toApiToken = ({ tokenHash: _tokenHash, ...token }: StoredToken): ApiToken => token;
+
+/** A user holds `role` when any of their roles ranks at or above it. */
+export const hasRole = (user: User, role: UserRole) =>
+  user.roles.some((held) => USER_ROLES.indexOf(held) >= USER_ROLES.indexOf(role));
+
+export const parseRoles = (value: unknown): UserRole[] =>
+  Array.isArray(value) ? USER_ROLES.filter((role) => value.includes(role)) : [];
+
+/** Reads the session cookie or an `Authorization: Bearer` token from a request. */
+export const readCredential = (req: express.Request) => {
+  const bearer = req.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (bearer) {
+    return bearer.trim();
+  }
+  for (const part of (req.get("Cookie") ?? "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+};
+
+/**
+ * File-backed store of local accounts, login sessions and API tokens in
+ * `<authRoot>/auth.json`. Writes are chained so they land in call order.
+ */
+export const createAuthStore = (authRoot: string) => {
+  const target = path.join(authRoot, "auth.json");
+  let state: Promise<AuthState> | null = null;
+  let writes = Promise.resolve();
+
+  const load = () => {
+    state ??= fs
+      .readFile(target, "utf8")
+      .then((raw) => JSON.parse(raw) as AuthState)
+      .catch((error) => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return { users: [], tokens: [], sessions: [] };
+        }
+        // An unreadable file must not look like a fresh install that anyone can set up.
+        state = null;
+        throw error;
+      });
+    return state;
+  };
+
+  const persist = (current: AuthState) => {
+    const snapshot = JSON.stringify(current, null, 2);
+    const write = writes.then(async () => {
+      const temp = `${target}.tmp`;
+      await fs.mkdir(authRoot, { recursive: true });
+      await fs.writeFile(temp, snapshot, { encoding: "utf8", mode: 0o600 });
+      await fs.rename(temp, target);
+    });
+    // Callers see the failure; later writes still run.
+    writes = write.catch(() => undefined);
+    return write;
+  };
+
+  const hasUsers = async () => (await load()).users.length > 0;
+
+  const listUsers = async () => (await load()).users.map(toUser);
+
+  /**
+   * Returns null when the username is taken or, with `firstUser`, once any
+   * account exists. The check runs after hashing with no await before the
+   * user is added, so concurrent requests cannot both pass it.
+   */
+  const createUser = async (
+    input: { username: string; password: string; roles: UserRole[] },
+    { firstUser = false } = {}
+  ) => {
+    const current = await load();
+    const passwordHash = await hashPassword(input.password);
+    const username = input.username.trim();
+    const taken = current.users.some(
+      (item) => item.username.toLowerCase() === username.toLowerCase()
+    );
+    if (taken || (firstUser && current.users.length > 0)) {
+      return null;
+    }
+    const user: StoredUser = {
+      id: randomUUID(),
+      username,
+      roles: input.roles,
+      createdAt: new Date().toISOString(),
+      passwordHash
+    };
+    current.users.push(user);
+    try {
+      await persist(current);
+    } catch (error) {
+      current.users.splice(current.users.indexOf(user), 1);
+      throw error;
+    }
+    return toUser(user);
+  };
+
+  /** Changing a password ends the user's sessions. */
+  const updateUser = async (id: string, patch: { roles?: UserRole[]; password?: string }) => {
+    const current = await load();
+    const user = current.users.find((item) => item.id === id);
+    if (!user) {
+      return null;
+    }
+    if (patch.roles) {
+      user.roles = patch.roles;
+    }
+    if (patch.password) {
+      user.passwordHash = await hashPassword(patch.password);
+      current.sessions = current.sessions.filter((session) => session.userId !== id);
+    }
+    await persist(current);
+    return toUser(user);
+  };
+
+  const removeUser = async (id: string) => {
+    const current = await load();
+    const before = current.users.length;
+    current.users = current.users.filter((user) => user.id !== id);
+    current.tokens = current.tokens.filter((token) => token.userId !== id);
+    current.sessions = current.sessions.filter((session) => session.userId !== id);
+    await persist(current);
+    return current.users.length < before;
+  };
+
+  /** Checks the password and opens a session; returns null for unknown users or bad passwords. */
+  const login = async (username: string, password: string) => {
+    const current = await load();
+    const user = current.users.find(
+      (item) => item.username.toLowerCase() === username.trim().toLowerCase()
+    );
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+    const session = newSecret();
+    const now = Date.now();
+    const expiresAt = new Date(now + SESSION_TTL_MS).toISOString();
+    current.sessions = current.sessions.filter((item) => Date.parse(item.expiresAt) > now);
+    current.sessions.push({ tokenHash: hashSecret(session), userId: user.id, expiresAt });
+    await persist(current);
+    return { session, expiresAt, user: toUser(user) };
+  };
+
+  const logout = async (session: string) => {
+    const current = await load();
+    const tokenHash = hashSecret(session);
+    current.sessions = current.sessions.filter((item) => item.tokenHash !== tokenHash);
+    await persist(current);
+  };
+
+  /** The token itself is only returned here; the store keeps its hash. */
+  const createToken = async (userId: string, name: string) => {
+    const current = await load();
+    const token = `${API_TOKEN_PREFIX}${newSecret()}`;
+    const stored: StoredToken = {
+      id: randomUUID(),
+      userId,
+      name,
+      createdAt: new Date().toISOString(),
+      tokenHash: hashSecret(token)
+    };
+    current.tokens.push(stored);
+    await persist(current);
+    return { token, apiToken: toApiToken(stored) };
+  };
+
+  const listTokens = async (userId: string) =>
+    (await load()).tokens.filter((token) => token.userId === userId).map(toApiToken);
+
+  const revokeToken = async (userId: string, id: string) => {
+    const current = await load();
+    const before = current.tokens.length;
+    current.tokens = current.tokens.filter((token) => token.userId !== userId || token.id !== id);
+    await persist(current);
+    return current.tokens.length < before;
+  };
+
+  /** Resolves a session id or API token to its user, or null when it is unknown or expired. */
+  const authenticate = async (credential: string) => {
+    const current = await load();
+    const tokenHash = hashSecret(credential);
+    let userId: string | undefined;
+    if (credential.startsWith(API_TOKEN_PREFIX)) {
+      const token = current.tokens.find((item) => item.tokenHash === tokenHash);
+      if (token) {
+        const now = Date.now();
+        if (!token.lastUsedAt || now - Date.parse(token.lastUsedAt) >= TOKEN_USE_RESOLUTION_MS) {
+          token.lastUsedAt = new Date(now).toISOString();
+          // Not awaited: a failed write only loses the timestamp, not the request.
+          persist(current).catch((error) => console.error("Failed to record token use:", error));
+        }
+        userId = token.userId;
+      }
+    } else {
+      const session = current.sessions.find((item) => item.tokenHash === tokenHash);
+      if (session && Date.parse(session.expiresAt) > Date.now()) {
+        userId = session.userId;
+      }
+    }
+    const user = userId ? current.users.find((item) => item.id === userId) : undefined;
+    return user ? toUser(user) : null;
+  };
+
+  return {
+    hasUsers,
+    listUsers,
+    createUser,
+    updateUser,
+    removeUser,
+    login,
+    logout,
+    createToken,
+    listTokens,
+    revokeToken,
+    authenticate
+  };
+};
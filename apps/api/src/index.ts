@@ -6,58 +6,207 @@ import { fileURLToPath } from "node:url";
 import { randomUUID } from "node:crypto";
 import {
   createPlan,
-  runAgent,
+  createProviderFromEnv,
+  createVersionStore,
+  diffDocuments,
+  hashContent,
+  findTemplateVariables,
+  instantiateTemplate,
+  loadAgentArchetypes,
+  planQuestionId,
+  findDependencyCycle,
+  selectCheckpoints,
+  MAX_RUN_TOKENS,
+  MAX_STEP_TOKENS,
+  STEP_FAILURE_POLICIES,
   type RunPlan,
-  type ArtifactResult,
-  type PlanAgentRole
+  type PlanAgentRole,
+  type DocConflict,
+  type ApprovalDecision,
+  type Clarification,
+  type StepDelta,
+  type PlanTemplate,
+  type RunWarning,
+  type RetryPolicy,
+  type WorkerMessage,
+  convertInThread,
+  formatProvenance,
+  importFormatOf,
+  readProvenance,
+  type ConvertedDoc,
+  EXPORT_FORMATS,
+  exportBundle,
+  selectBundleArtifacts,
+  withWorkspaceLock,
+  type ExportFormat
 } from "@mvp/worker";
+import { createRunStore, type RunEvent, type RunRecord, type RunStatus } from "./runStore.js";
+import { getRunTimings, matchesRunFilter, parseRunFilter, summarizeRun } from "./runHistory.js";
+import { createSearchEngine } from "./search.js";
+import { createTemplateStore, summarizeTemplate, toTemplateId } from "./templateStore.js";
+import { createRunQueue, RUN_PRIORITIES, type RunPriority } from "./runQueue.js";
+import { createWorkerProcess } from "./workerProcess.js";
+import { createNotebookStore, DEFAULT_NOTEBOOK_ID, type Notebook } from "./notebookStore.js";
+import {
+  MIN_PASSWORD_LENGTH,
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  createAuthStore,
+  hasRole,
+  parseRoles,
+  readCredential,
+  type User,
+  type UserRole
+} from "./auth.js";
 
 const app = express();
 const port = Number.parseInt(process.env.API_PORT ?? "4000", 10);
 
-app.use(cors());
-app.use(express.json({ limit: "2mb" }));
+/** The web app sends its session cookie cross-origin, so only known origins are allowed. */
+const webOrigins = (process.env.WEB_ORIGIN ?? "http://localhost:3000")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+app.use(cors({ origin: webOrigins, credentials: true }));
+const parseJson = express.json({ limit: "2mb" });
+// Imports read the raw upload themselves, whatever Content-Type the browser sent with it.
+app.use((req, res, next) => (req.path.endsWith("/import") ? next() : parseJson(req, res, next)));
 
 const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../../..");
 const workspaceRoot = path.join(repoRoot, "workspace");
-const docsRoot = path.join(workspaceRoot, "docs");
-
-type RunEvent = {
-  event:
-    | "started"
-    | "planning"
-    | "step_started"
-    | "step_completed"
-    | "artifact_written"
-    | "done"
-    | "error"
-    | "cancelled";
-  data: Record<string, unknown>;
+const modelProvider = await createProviderFromEnv();
+const maxParallelSteps = Number.parseInt(process.env.MAX_PARALLEL_STEPS ?? "", 10) || undefined;
+const tokenBudget = {
+  run: Number.parseInt(process.env.MAX_RUN_TOKENS ?? "", 10) || MAX_RUN_TOKENS,
+  step: Number.parseInt(process.env.MAX_STEP_TOKENS ?? "", 10) || MAX_STEP_TOKENS
 };
+/** Only the retry settings present in the environment; the worker fills in the rest. */
+const retryPolicy: Partial<RetryPolicy> = Object.fromEntries(
+  (
+    [
+      ["maxRetries", process.env.MAX_STEP_RETRIES],
+      ["initialDelayMs", process.env.RETRY_BASE_DELAY_MS],
+      ["maxDelayMs", process.env.RETRY_MAX_DELAY_MS]
+    ] as const
+  )
+    .map(([key, value]) => [key, Number.parseInt(value ?? "", 10)] as const)
+    .filter(([, value]) => Number.isInteger(value) && value >= 0)
+);
+const runStore = createRunStore(path.join(workspaceRoot, ".runs"));
+const templateStore = createTemplateStore(path.join(workspaceRoot, "templates"));
+const authStore = createAuthStore(path.join(workspaceRoot, ".auth"));
+const notebookStore = createNotebookStore(workspaceRoot);
 
 type RunState = {
   id: string;
   events: RunEvent[];
   listeners: Set<(event: RunEvent) => void>;
-  status: "running" | "done" | "error" | "cancelled";
+  status: RunStatus;
   cancelled: boolean;
+  record: RunRecord;
+  approvals: Map<string, (decision: ApprovalDecision) => void>;
+  questions: Map<string, (answer: string) => void>;
+  /** Text streamed so far for steps still in progress, replayed to late subscribers. */
+  partials: Map<string, StepDelta>;
 };
 
 const runs = new Map<string, RunState>();
 
-const ensureDocsPath = (relativePath: string) => {
-  if (!relativePath || relativePath.includes("..")) {
-    throw new Error("Invalid path.");
-  }
-  const resolved = path.resolve(docsRoot, relativePath);
-  const normalizedDocsRoot = path.resolve(docsRoot) + path.sep;
-  if (!resolved.startsWith(normalizedDocsRoot)) {
-    throw new Error("Path escapes workspace/docs.");
-  }
-  if (path.extname(resolved) !== ".md") {
-    throw new Error("Only markdown files are allowed.");
+/** Path checks, version history and search index for one notebook's docs folder. */
+const createNotebookContext = (notebook: Notebook) => {
+  const root = notebookStore.rootOf(notebook.id);
+  const docsRoot = path.join(root, "docs");
+
+  const ensureDocsPath = (relativePath: string) => {
+    if (!relativePath || relativePath.includes("..")) {
+      throw new Error("Invalid path.");
+    }
+    const resolved = path.resolve(docsRoot, relativePath);
+    const normalizedDocsRoot = path.resolve(docsRoot) + path.sep;
+    if (!resolved.startsWith(normalizedDocsRoot)) {
+      throw new Error("Path escapes the notebook's docs folder.");
+    }
+    if (path.extname(resolved) !== ".md") {
+      throw new Error("Only markdown files are allowed.");
+    }
+    return resolved;
+  };
+
+  /** Validates a request path and returns it relative to the docs folder with forward slashes. */
+  const toDocPath = (relativePath: string) =>
+    path.relative(docsRoot, ensureDocsPath(relativePath)).split(path.sep).join("/");
+
+  // Runs write artifacts from the worker process, so edits take the same workspace lock.
+  const store = createVersionStore(docsRoot, path.join(root, ".versions"));
+  const locked =
+    <Args extends unknown[], Result>(write: (...args: Args) => Promise<Result>) =>
+    (...args: Args) =>
+      withWorkspaceLock(root, () => write(...args));
+
+  return {
+    notebook,
+    root,
+    docsRoot,
+    ensureDocsPath,
+    toDocPath,
+    versionStore: {
+      ...store,
+      write: locked(store.write),
+      remove: locked(store.remove),
+      writeIfMatch: locked(store.writeIfMatch),
+      removeIfMatch: locked(store.removeIfMatch)
+    },
+    searchEngine: createSearchEngine(ensureDocsPath)
+  };
+};
+
+type NotebookContext = ReturnType<typeof createNotebookContext>;
+
+const notebookContexts = new Map<string, NotebookContext>();
+
+const getNotebookContext = (notebook: Notebook) => {
+  const context = notebookContexts.get(notebook.id) ?? createNotebookContext(notebook);
+  notebookContexts.set(notebook.id, context);
+  return { ...context, notebook };
+};
+
+const toEtag = (content: string) => `"${hashContent(content)}"`;
+
+/**
+ * Reads the write precondition: the hash from `If-Match` (`*` for any
+ * existing doc), `null` for `If-None-Match: *` (doc must not exist), or
+ * undefined for an unconditional write.
+ */
+const parsePrecondition = (req: express.Request) => {
+  const ifMatch = req.get("If-Match")?.trim();
+  if (ifMatch) {
+    return ifMatch === "*" ? "*" : ifMatch.replace(/^W\//, "").replace(/"/g, "");
   }
-  return resolved;
+  return req.get("If-None-Match")?.trim() === "*" ? null : undefined;
+};
+
+const sendConflict = (res: express.Response, conflict: DocConflict, yours?: string) => {
+  res.status(409).json({
+    error:
+      conflict.currentHash === null
+        ? "Document no longer exists."
+        : conflict.expectedHash === null
+          ? "Document already exists."
+          : "Document changed since it was loaded.",
+    conflict: {
+      path: conflict.path,
+      expectedEtag: conflict.expectedHash === null ? null : `"${conflict.expectedHash}"`,
+      currentEtag: conflict.currentHash === null ? null : `"${conflict.currentHash}"`,
+      current: conflict.currentContent,
+      yours: yours ?? null
+    }
+  });
+};
+
+const parseContext = (value: unknown) => {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isNaN(parsed) ? undefined : Math.min(Math.max(parsed, 0), 20);
 };
 
 const listMarkdownFiles = async (dir: string, base: string): Promise<string[]> => {
@@ -75,13 +224,115 @@ const listMarkdownFiles = async (dir: string, base: string): Promise<string[]> =
   return files.sort();
 };
 
-const emitRunEvent = (run: RunState, event: RunEvent) => {
-  run.events.push(event);
+const broadcastRunEvent = (run: RunState, event: RunEvent) => {
   for (const listener of run.listeners) {
     listener(event);
   }
 };
 
+const emitRunEvent = (run: RunState, event: RunEvent) => {
+  const stamped = { ...event, timestamp: new Date().toISOString() };
+  run.events.push(stamped);
+  void runStore.appendEvent(run.id, stamped);
+  broadcastRunEvent(run, stamped);
+};
+
+/**
+ * Streamed step text is sent to live subscribers only; the event log keeps
+ * the final output from `step_completed` instead of every fragment.
+ */
+const emitStepDelta = (run: RunState, delta: StepDelta) => {
+  const partial = run.partials.get(delta.stepId);
+  const text =
+    partial && partial.attempt === delta.attempt ? partial.text + delta.text : delta.text;
+  run.partials.set(delta.stepId, { ...delta, text });
+  broadcastRunEvent(run, {
+    event: "step_delta",
+    data: { stepId: delta.stepId, attempt: delta.attempt, delta: delta.text }
+  });
+};
+
+const updateRun = (run: RunState, patch: Partial<RunRecord>) => {
+  Object.assign(run.record, patch);
+  run.status = run.record.status;
+  void runStore.save(run.record);
+};
+
+const getRun = async (id: string) => {
+  const cached = runs.get(id);
+  if (cached) {
+    return cached;
+  }
+  const record = await runStore.loadRecord(id).catch(() => null);
+  if (!record) {
+    return null;
+  }
+  const run: RunState = {
+    id,
+    events: await runStore.loadEvents(id),
+    listeners: new Set(),
+    status: record.status,
+    cancelled: record.status === "cancelled",
+    record: {
+      ...record,
+      clarifications: normalizeClarifications(record.clarifications, record.plan.questions)
+    },
+    approvals: new Map(),
+    questions: new Map(),
+    partials: new Map()
+  };
+  runs.set(id, run);
+  return run;
+};
+
+const recoverInterruptedRuns = async () => {
+  for (const id of await runStore.listIds()) {
+    const run = await getRun(id);
+    if (run?.status === "queued") {
+      runQueue.enqueue(run.id, run.record.priority);
+      continue;
+    }
+    if (run?.status !== "running") {
+      continue;
+    }
+    const message = "Run interrupted by an API restart.";
+    emitRunEvent(run, { event: "error", data: { message } });
+    updateRun(run, { status: "error", error: message, finishedAt: new Date().toISOString() });
+  }
+};
+
+const LEGACY_CLARIFICATION_ID = "notes";
+
+/**
+ * Accepts `[{ id, answer }]` answers keyed by plan question id (`q-1`, ...),
+ * or the older single free-text string, which is kept as one unkeyed note.
+ */
+const normalizeClarifications = (input: unknown, questions: string[]): Clarification[] => {
+  if (typeof input === "string") {
+    const answer = input.trim();
+    return answer ? [{ id: LEGACY_CLARIFICATION_ID, question: "", answer }] : [];
+  }
+  if (!Array.isArray(input)) {
+    return [];
+  }
+  return input.flatMap((item: Record<string, unknown>) => {
+    const id = String(item?.id ?? "").trim();
+    const answer = String(item?.answer ?? "").trim();
+    if (!id || !answer) {
+      return [];
+    }
+    const index = questions.findIndex((_question, position) => planQuestionId(position) === id);
+    return [
+      {
+        id,
+        question: index >= 0 ? questions[index] : String(item.question ?? ""),
+        answer,
+        ...(item.stepId ? { stepId: String(item.stepId) } : {})
+      }
+    ];
+  });
+};
+
 const normalizePlanInput = (plan: RunPlan) => ({
   interpretedGoal: String(plan.interpretedGoal ?? ""),
   steps: Array.isArray(plan.steps)
@@ -89,7 +340,15 @@ const normalizePlanInput = (plan: RunPlan) => ({
         id: String(step.id ?? ""),
         title: String(step.title ?? ""),
         description: String(step.description ?? ""),
-        agent: String(step.agent ?? "")
+        agent: String(step.agent ?? ""),
+        dependsOn: Array.isArray(step.dependsOn)
+          ? step.dependsOn.map((dependency) => String(dependency))
+          : undefined,
+        requiresApproval: step.requiresApproval === true || undefined,
+        onFailure:
+          step.onFailure && STEP_FAILURE_POLICIES.includes(step.onFailure)
+            ? step.onFailure
+            : undefined
       }))
     : [],
   agents: Array.isArray(plan.agents)
@@ -104,8 +363,309 @@ const normalizePlanInput = (plan: RunPlan) => ({
     : []
 });
 
-app.get("/api/files", async (_req, res) => {
+const currentUser = (res: express.Response) => res.locals.user as User;
+
+/** Rejects requests without a signed-in user (401) or without `role` (403). */
+const requireRole =
+  (role: UserRole): express.RequestHandler =>
+  (_req, res, next) => {
+    const user = res.locals.user as User | null;
+    if (!user) {
+      res.status(401).json({ error: "Sign in to continue." });
+      return;
+    }
+    if (!hasRole(user, role)) {
+      res.status(403).json({ error: `This needs the ${role} role.` });
+      return;
+    }
+    next();
+  };
+
+const currentNotebook = (res: express.Response) => res.locals.notebook as NotebookContext;
+
+/** Loads the notebook named in the URL, or the default notebook for unscoped `/api/...` routes. */
+const resolveNotebook: express.RequestHandler = async (req, res, next) => {
+  const notebook = await notebookStore
+    .get(req.params.notebookId ?? DEFAULT_NOTEBOOK_ID)
+    .catch(() => undefined);
+  if (notebook === undefined) {
+    res.status(500).json({ error: "Failed to load notebook." });
+    return;
+  }
+  if (!notebook) {
+    res.status(404).json({ error: "Notebook not found." });
+    return;
+  }
+  res.locals.notebook = getNotebookContext(notebook);
+  next();
+};
+
+/** Role check for routes that change or run a notebook; archived notebooks are read-only. */
+const requireNotebookWrite = (role: UserRole): express.RequestHandler => {
+  const checkRole = requireRole(role);
+  return (req, res, next) =>
+    checkRole(req, res, () => {
+      if (currentNotebook(res).notebook.archivedAt) {
+        res.status(409).json({ error: "This notebook is archived. Restore it to make changes." });
+        return;
+      }
+      next();
+    });
+};
+
+/** File, search, plan and run routes, mounted under `/api/notebooks/:notebookId` and `/api`. */
+const notebookRoutes = express.Router({ mergeParams: true });
+notebookRoutes.use(requireRole("viewer"), resolveNotebook);
+
+const isLoopback = (req: express.Request) =>
+  ["127.0.0.1", "::1", "::ffff:127.0.0.1"].includes(req.socket.remoteAddress ?? "");
+
+const setSessionCookie = (res: express.Response, session: string) =>
+  res.cookie(SESSION_COOKIE, session, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.AUTH_COOKIE_SECURE === "true",
+    maxAge: SESSION_TTL_MS
+  });
+
+const parseUserInput = (body: Record<string, unknown> | undefined) => {
+  const username = String(body?.username ?? "").trim();
+  const password = String(body?.password ?? "");
+  if (!/^[\w.-]{2,32}$/.test(username)) {
+    return { error: "Usernames are 2-32 letters, digits, dots, dashes or underscores." };
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` };
+  }
+  return { username, password, roles: parseRoles(body?.roles) };
+};
+
+app.use(async (req, res, next) => {
+  const credential = readCredential(req);
+  res.locals.user = credential ? await authStore.authenticate(credential).catch(() => null) : null;
+  next();
+});
+
+app.get("/api/auth/session", async (_req, res) => {
+  try {
+    res.json({ user: res.locals.user ?? null, setupRequired: !(await authStore.hasUsers()) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to load session." });
+  }
+});
+
+/** Creates the first admin account; only allowed from this machine while no account exists. */
+app.post("/api/auth/setup", async (req, res) => {
+  try {
+    if (await authStore.hasUsers()) {
+      res.status(409).json({ error: "An admin account already exists." });
+      return;
+    }
+    if (!isLoopback(req)) {
+      res.status(403).json({ error: "Create the first account from the machine running the API." });
+      return;
+    }
+    const input = parseUserInput(req.body);
+    if ("error" in input) {
+      res.status(400).json({ error: input.error });
+      return;
+    }
+    if (!(await authStore.createUser({ ...input, roles: ["admin"] }, { firstUser: true }))) {
+      res.status(409).json({ error: "An admin account already exists." });
+      return;
+    }
+    const login = await authStore.login(input.username, input.password);
+    if (!login) {
+      res.status(500).json({ error: "Failed to sign in." });
+      return;
+    }
+    setSessionCookie(res, login.session);
+    res.status(201).json({ user: login.user, expiresAt: login.expiresAt });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create the admin account." });
+  }
+});
+
+app.post("/api/auth/login", async (req, res) => {
+  try {
+    const login = await authStore.login(
+      String(req.body?.username ?? ""),
+      String(req.body?.password ?? "")
+    );
+    if (!login) {
+      res.status(401).json({ error: "Unknown username or wrong password." });
+      return;
+    }
+    setSessionCookie(res, login.session);
+    res.json({ user: login.user, expiresAt: login.expiresAt });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to sign in." });
+  }
+});
+
+app.post("/api/auth/logout", async (req, res) => {
+  try {
+    const credential = readCredential(req);
+    if (credential) {
+      await authStore.logout(credential);
+    }
+    res.clearCookie(SESSION_COOKIE).json({ ok: true });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to sign out." });
+  }
+});
+
+app.get("/api/auth/tokens", requireRole("viewer"), async (_req, res) => {
+  try {
+    res.json({ tokens: await authStore.listTokens(currentUser(res).id) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to list tokens." });
+  }
+});
+
+app.post("/api/auth/tokens", requireRole("viewer"), async (req, res) => {
+  try {
+    const name = String(req.body?.name ?? "").trim();
+    if (!name) {
+      res.status(400).json({ error: "Token name is required." });
+      return;
+    }
+    res.status(201).json(await authStore.createToken(currentUser(res).id, name));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create token." });
+  }
+});
+
+app.delete("/api/auth/tokens/:id", requireRole("viewer"), async (req, res) => {
+  try {
+    if (!(await authStore.revokeToken(currentUser(res).id, req.params.id))) {
+      res.status(404).json({ error: "Token not found." });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to revoke token." });
+  }
+});
+
+app.get("/api/users", requireRole("admin"), async (_req, res) => {
+  try {
+    res.json({ users: await authStore.listUsers() });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to list users." });
+  }
+});
+
+app.post("/api/users", requireRole("admin"), async (req, res) => {
+  try {
+    const input = parseUserInput(req.body);
+    if ("error" in input) {
+      res.status(400).json({ error: input.error });
+      return;
+    }
+    const user = await authStore.createUser(input);
+    if (!user) {
+      res.status(409).json({ error: `A user named "${input.username}" already exists.` });
+      return;
+    }
+    res.status(201).json({ user });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create user." });
+  }
+});
+
+app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const password = req.body?.password === undefined ? undefined : String(req.body.password);
+    if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+      res.status(400).json({ error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` });
+      return;
+    }
+    const roles = req.body?.roles === undefined ? undefined : parseRoles(req.body.roles);
+    if (req.params.id === currentUser(res).id && roles && !roles.includes("admin")) {
+      res.status(400).json({ error: "You cannot remove your own admin role." });
+      return;
+    }
+    const user = await authStore.updateUser(req.params.id, { roles, password });
+    if (!user) {
+      res.status(404).json({ error: "User not found." });
+      return;
+    }
+    res.json({ user });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update user." });
+  }
+});
+
+app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+  try {
+    if (req.params.id === currentUser(res).id) {
+      res.status(400).json({ error: "You cannot delete your own account." });
+      return;
+    }
+    if (!(await authStore.removeUser(req.params.id))) {
+      res.status(404).json({ error: "User not found." });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete user." });
+  }
+});
+
+app.get("/api/notebooks", requireRole("viewer"), async (req, res) => {
   try {
+    const archived = req.query.archived === "true";
+    res.json({ notebooks: await notebookStore.list({ archived }) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to list notebooks." });
+  }
+});
+
+app.post("/api/notebooks", requireRole("editor"), async (req, res) => {
+  const name = String(req.body?.name ?? "").trim();
+  if (!name) {
+    res.status(400).json({ error: "Notebook name is required." });
+    return;
+  }
+  try {
+    res.status(201).json({ notebook: await notebookStore.create(name) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create notebook." });
+  }
+});
+
+/** Renames a notebook (`name`) or archives and restores it (`archived`, admins only). */
+app.patch("/api/notebooks/:id", requireRole("editor"), async (req, res) => {
+  const name = req.body?.name === undefined ? undefined : String(req.body.name).trim();
+  const archived = typeof req.body?.archived === "boolean" ? req.body.archived : undefined;
+  if (name === "") {
+    res.status(400).json({ error: "Notebook name is required." });
+    return;
+  }
+  if (archived !== undefined && !hasRole(currentUser(res), "admin")) {
+    res.status(403).json({ error: "This needs the admin role." });
+    return;
+  }
+  if (archived && req.params.id === DEFAULT_NOTEBOOK_ID) {
+    res.status(400).json({ error: "The default notebook cannot be archived." });
+    return;
+  }
+  try {
+    const notebook = await notebookStore.update(req.params.id, { name, archived });
+    if (!notebook) {
+      res.status(404).json({ error: "Notebook not found." });
+      return;
+    }
+    res.json({ notebook });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update notebook." });
+  }
+});
+
+notebookRoutes.get("/files", requireRole("viewer"), async (_req, res) => {
+  try {
+    const { docsRoot } = currentNotebook(res);
     await fs.mkdir(docsRoot, { recursive: true });
     const files = await listMarkdownFiles(docsRoot, docsRoot);
     res.json({ files });
@@ -114,90 +674,443 @@ app.get("/api/files", async (_req, res) => {
   }
 });
 
-app.get("/api/file", async (req, res) => {
+notebookRoutes.get("/file", requireRole("viewer"), async (req, res) => {
   try {
     const relative = String(req.query.path ?? "");
-    const resolved = ensureDocsPath(relative);
+    const resolved = currentNotebook(res).ensureDocsPath(relative);
     const content = await fs.readFile(resolved, "utf8");
-    res.json({ path: relative, content });
+    const etag = toEtag(content);
+    res.set("ETag", etag).json({ path: relative, content, etag });
   } catch (error) {
     res.status(400).json({ error: "Invalid file path." });
   }
 });
 
-app.post("/api/file", async (req, res) => {
+notebookRoutes.post("/file", requireNotebookWrite("editor"), async (req, res) => {
   try {
+    const { versionStore, toDocPath } = currentNotebook(res);
     const relative = String(req.body?.path ?? "").trim();
     if (!relative) {
       res.status(400).json({ error: "Path is required." });
       return;
     }
-    const resolved = ensureDocsPath(relative);
     const content = String(req.body?.content ?? "");
-    await fs.mkdir(path.dirname(resolved), { recursive: true });
-    await fs.writeFile(resolved, content, "utf8");
-    res.json({ path: relative });
+    const reason = String(req.body?.reason ?? "").trim() || "Saved document";
+    const meta = { kind: "user" as const, author: currentUser(res).username, reason };
+    const precondition = parsePrecondition(req);
+    const docPath = toDocPath(relative);
+    const result =
+      precondition === undefined
+        ? { ok: true as const, version: await versionStore.write(docPath, content, meta) }
+        : await versionStore.writeIfMatch(docPath, content, meta, precondition);
+    if (!result.ok) {
+      sendConflict(res, result.conflict, content);
+      return;
+    }
+    res.json({ path: relative, version: result.version, etag: toEtag(content) });
   } catch (error) {
     res.status(400).json({ error: "Failed to create file." });
   }
 });
 
-app.patch("/api/file", async (req, res) => {
+notebookRoutes.patch("/file", requireNotebookWrite("editor"), async (req, res) => {
   try {
+    const { versionStore, toDocPath, ensureDocsPath } = currentNotebook(res);
     const relative = String(req.body?.path ?? "").trim();
     const nextPath = String(req.body?.newPath ?? "").trim();
     if (!relative || !nextPath) {
       res.status(400).json({ error: "Path and newPath are required." });
       return;
     }
-    const resolved = ensureDocsPath(relative);
-    const resolvedNext = ensureDocsPath(nextPath);
-    await fs.mkdir(path.dirname(resolvedNext), { recursive: true });
-    await fs.rename(resolved, resolvedNext);
-    res.json({ path: nextPath });
+    const docPath = toDocPath(relative);
+    const nextDocPath = toDocPath(nextPath);
+    const content = await fs.readFile(ensureDocsPath(docPath), "utf8");
+    const precondition = parsePrecondition(req);
+    const removed = await versionStore.removeIfMatch(
+      docPath,
+      { kind: "user", author: currentUser(res).username, reason: `Renamed to ${nextDocPath}` },
+      precondition === undefined || precondition === "*" ? hashContent(content) : precondition
+    );
+    if (!removed.ok) {
+      sendConflict(res, removed.conflict);
+      return;
+    }
+    await versionStore.write(nextDocPath, content, {
+      kind: "user",
+      author: currentUser(res).username,
+      reason: `Renamed from ${docPath}`
+    });
+    res.json({ path: nextPath, etag: toEtag(content) });
   } catch (error) {
     res.status(400).json({ error: "Failed to rename file." });
   }
 });
 
-app.delete("/api/file", async (req, res) => {
+notebookRoutes.delete("/file", requireNotebookWrite("editor"), async (req, res) => {
   try {
+    const { versionStore, toDocPath } = currentNotebook(res);
     const relative = String(req.query.path ?? "");
-    const resolved = ensureDocsPath(relative);
-    await fs.rm(resolved);
+    const meta = {
+      kind: "user" as const,
+      author: currentUser(res).username,
+      reason: "Deleted document"
+    };
+    const precondition = parsePrecondition(req);
+    if (precondition !== undefined) {
+      const result = await versionStore.removeIfMatch(toDocPath(relative), meta, precondition);
+      if (!result.ok) {
+        sendConflict(res, result.conflict);
+        return;
+      }
+    } else {
+      await versionStore.remove(toDocPath(relative), meta);
+    }
     res.json({ path: relative });
   } catch (error) {
     res.status(400).json({ error: "Failed to delete file." });
   }
 });
 
-app.get("/api/search", async (req, res) => {
+notebookRoutes.get("/file/versions", requireRole("viewer"), async (req, res) => {
+  try {
+    const { versionStore, toDocPath } = currentNotebook(res);
+    const docPath = toDocPath(String(req.query.path ?? ""));
+    res.json({ path: docPath, versions: await versionStore.list(docPath) });
+  } catch (error) {
+    res.status(400).json({ error: "Invalid file path." });
+  }
+});
+
+notebookRoutes.get("/file/versions/:versionId", requireRole("viewer"), async (req, res) => {
+  try {
+    const { versionStore, toDocPath } = currentNotebook(res);
+    const docPath = toDocPath(String(req.query.path ?? ""));
+    const found = await versionStore.read(docPath, Number(req.params.versionId));
+    if (!found) {
+      res.status(404).json({ error: "Version not found." });
+      return;
+    }
+    res.json({ path: docPath, ...found });
+  } catch (error) {
+    res.status(400).json({ error: "Failed to read version." });
+  }
+});
+
+notebookRoutes.get("/file/diff", requireRole("viewer"), async (req, res) => {
+  try {
+    const { versionStore, toDocPath } = currentNotebook(res);
+    const docPath = toDocPath(String(req.query.path ?? ""));
+    const versions = await versionStore.list(docPath);
+    const latest = versions[versions.length - 1]?.id ?? 0;
+    const fromId = Number(req.query.from ?? Math.max(latest - 1, 1));
+    const toId = Number(req.query.to ?? latest);
+    const [from, to] = await Promise.all([
+      versionStore.read(docPath, fromId),
+      versionStore.read(docPath, toId)
+    ]);
+    if (!from || !to) {
+      res.status(404).json({ error: "Version not found." });
+      return;
+    }
+    res.json({
+      path: docPath,
+      from: from.version,
+      to: to.version,
+      ...diffDocuments(from.content, to.content, parseContext(req.query.context))
+    });
+  } catch (error) {
+    res.status(400).json({ error: "Failed to diff versions." });
+  }
+});
+
+app.post("/api/diff", requireRole("viewer"), (req, res) => {
+  const previous = req.body?.previous;
+  const next = req.body?.next;
+  if (typeof previous !== "string" || typeof next !== "string") {
+    res.status(400).json({ error: "previous and next must be strings." });
+    return;
+  }
+  res.json(diffDocuments(previous, next, parseContext(req.body?.context)));
+});
+
+notebookRoutes.post("/file/restore", requireNotebookWrite("editor"), async (req, res) => {
+  try {
+    const { versionStore, toDocPath } = currentNotebook(res);
+    const docPath = toDocPath(String(req.body?.path ?? ""));
+    const versionId = Number(req.body?.version);
+    const found = await versionStore.read(docPath, versionId);
+    if (!found || found.version.deleted) {
+      res.status(404).json({ error: "Version not found." });
+      return;
+    }
+    const meta = {
+      kind: "user" as const,
+      author: currentUser(res).username,
+      reason: `Restored version ${versionId}`
+    };
+    const precondition = parsePrecondition(req);
+    const result =
+      precondition === undefined
+        ? { ok: true as const, version: await versionStore.write(docPath, found.content, meta) }
+        : await versionStore.writeIfMatch(docPath, found.content, meta, precondition);
+    if (!result.ok) {
+      sendConflict(res, result.conflict, found.content);
+      return;
+    }
+    res.json({ path: docPath, version: result.version, etag: toEtag(found.content) });
+  } catch (error) {
+    res.status(400).json({ error: "Failed to restore version." });
+  }
+});
+
+const MAX_IMPORT_BYTES = 25 * 1024 * 1024;
+
+/** Reads an upload as the raw request body, answering oversized files with JSON. */
+const readUpload: express.RequestHandler = (req, res, next) =>
+  express.raw({ type: () => true, limit: MAX_IMPORT_BYTES })(req, res, (error?: unknown) => {
+    if (error) {
+      const tooLarge = (error as { status?: number }).status === 413;
+      res
+        .status(tooLarge ? 413 : 400)
+        .json({ error: tooLarge ? "Files up to 25 MB can be imported." : "Upload failed." });
+      return;
+    }
+    next();
+  });
+
+/**
+ * Converts an uploaded PDF, DOCX, HTML or CSV file (named by `?name=`) to a
+ * markdown doc with provenance frontmatter and keeps the original next to it.
+ * Imports never replace an existing doc unless the request sends `If-Match`.
+ */
+notebookRoutes.post("/import", requireNotebookWrite("editor"), readUpload, async (req, res) => {
+  try {
+    const { versionStore, toDocPath, docsRoot } = currentNotebook(res);
+    const name = String(req.query.name ?? "").trim();
+    const format = importFormatOf(name);
+    if (!format) {
+      res.status(400).json({ error: "Only PDF, DOCX, HTML and CSV files can be imported." });
+      return;
+    }
+    const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (data.length === 0) {
+      res.status(400).json({ error: "The uploaded file is empty." });
+      return;
+    }
+    const docPath = toDocPath(`${name.slice(0, -path.extname(name).length)}.md`);
+    const source = path.posix.join(path.posix.dirname(docPath), path.basename(name));
+
+    let converted: ConvertedDoc;
+    try {
+      converted = await convertInThread(format, data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(422).json({ error: `Could not convert ${path.basename(name)}: ${message}` });
+      return;
+    }
+    const importedAt = new Date().toISOString();
+    const provenance = formatProvenance({ source, format, importedAt, pages: converted.pages });
+    const content = `${provenance}${converted.markdown}\n`;
+    const meta = {
+      kind: "user" as const,
+      author: currentUser(res).username,
+      reason: `Imported ${path.basename(name)}`
+    };
+    const result = await versionStore.writeIfMatch(
+      docPath,
+      content,
+      meta,
+      parsePrecondition(req) ?? null
+    );
+    if (!result.ok) {
+      sendConflict(res, result.conflict);
+      return;
+    }
+    const sourcePath = path.join(docsRoot, ...source.split("/"));
+    await fs.mkdir(path.dirname(sourcePath), { recursive: true });
+    await fs.writeFile(sourcePath, data);
+    res.status(201).json({
+      path: docPath,
+      source,
+      version: result.version,
+      etag: toEtag(content),
+      warnings: converted.warnings
+    });
+  } catch (error) {
+    res.status(400).json({ error: "Failed to import file." });
+  }
+});
+
+/** Downloads the original file an imported doc was converted from. */
+notebookRoutes.get("/file/source", requireRole("viewer"), async (req, res) => {
   try {
-    const query = String(req.query.query ?? "").trim().toLowerCase();
+    const { ensureDocsPath, docsRoot } = currentNotebook(res);
+    const content = await fs.readFile(ensureDocsPath(String(req.query.path ?? "")), "utf8");
+    const provenance = readProvenance(content);
+    const resolved = provenance ? path.resolve(docsRoot, provenance.source) : "";
+    if (!provenance || !resolved.startsWith(path.resolve(docsRoot) + path.sep)) {
+      res.status(404).json({ error: "Document was not imported from a file." });
+      return;
+    }
+    res.download(resolved, path.basename(resolved), (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: "Original file not found." });
+      }
+    });
+  } catch (error) {
+    res.status(400).json({ error: "Invalid file path." });
+  }
+});
+
+notebookRoutes.get("/search", requireRole("viewer"), async (req, res) => {
+  try {
+    const { docsRoot, searchEngine } = currentNotebook(res);
+    const query = String(req.query.query ?? "").trim();
     if (!query) {
       res.json({ results: [] });
       return;
     }
     const files = await listMarkdownFiles(docsRoot, docsRoot);
-    const results = [];
-    for (const file of files) {
-      const resolved = ensureDocsPath(file);
-      const content = await fs.readFile(resolved, "utf8");
-      const index = content.toLowerCase().indexOf(query);
-      if (index >= 0) {
-        const start = Math.max(0, index - 60);
-        const end = Math.min(content.length, index + 60);
-        const snippet = content.slice(start, end).replace(/\s+/g, " ").trim();
-        results.push({ path: file, snippet });
-      }
-    }
+    const results = await searchEngine.search(query, files);
     res.json({ results });
   } catch (error) {
     res.status(500).json({ error: "Search failed." });
   }
 });
 
-app.post("/api/plan", async (req, res) => {
+notebookRoutes.get("/agents", requireRole("viewer"), async (_req, res) => {
+  try {
+    res.json({ agents: await loadAgentArchetypes(currentNotebook(res).root) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to load agent archetypes." });
+  }
+});
+
+/** Validates a template's name and plan; returns an error message or the parsed fields. */
+const parseTemplateInput = (body: Record<string, unknown> | undefined) => {
+  const name = String(body?.name ?? "").trim();
+  const planInput = body?.plan as RunPlan | undefined;
+  if (!name || !toTemplateId(name) || !planInput) {
+    return { error: "Template name and plan are required." };
+  }
+  const plan = normalizePlanInput(planInput);
+  if (plan.steps.length === 0) {
+    return { error: "Template plan needs at least one step." };
+  }
+  const cycle = findDependencyCycle(plan.steps);
+  if (cycle) {
+    return { error: `Plan steps have a dependency cycle: ${cycle.join(" -> ")}.` };
+  }
+  return { name, description: String(body?.description ?? "").trim(), plan };
+};
+
+app.get("/api/templates", requireRole("viewer"), async (_req, res) => {
+  try {
+    const templates = await templateStore.list();
+    res.json({ templates: templates.map(summarizeTemplate) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to list templates." });
+  }
+});
+
+app.get("/api/templates/:id", requireRole("viewer"), async (req, res) => {
+  try {
+    const template = await templateStore.get(req.params.id);
+    if (!template) {
+      res.status(404).json({ error: "Template not found." });
+      return;
+    }
+    res.json({ template });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to load template." });
+  }
+});
+
+app.post("/api/templates", requireRole("run-launcher"), async (req, res) => {
+  const input = parseTemplateInput(req.body);
+  if ("error" in input) {
+    res.status(400).json({ error: input.error });
+    return;
+  }
+  try {
+    const id = toTemplateId(input.name);
+    if (await templateStore.get(id)) {
+      res.status(409).json({ error: `A template named "${input.name}" already exists.` });
+      return;
+    }
+    const now = new Date().toISOString();
+    const template: PlanTemplate = {
+      id,
+      ...input,
+      variables: findTemplateVariables(input.plan),
+      createdAt: now,
+      updatedAt: now
+    };
+    res.status(201).json({ template: await templateStore.save(template) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to save template." });
+  }
+});
+
+app.put("/api/templates/:id", requireRole("run-launcher"), async (req, res) => {
+  const input = parseTemplateInput(req.body);
+  if ("error" in input) {
+    res.status(400).json({ error: input.error });
+    return;
+  }
+  try {
+    const existing = await templateStore.get(req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: "Template not found." });
+      return;
+    }
+    const template: PlanTemplate = {
+      ...existing,
+      ...input,
+      variables: findTemplateVariables(input.plan),
+      updatedAt: new Date().toISOString()
+    };
+    res.json({ template: await templateStore.save(template) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to save template." });
+  }
+});
+
+app.delete("/api/templates/:id", requireRole("run-launcher"), async (req, res) => {
+  try {
+    if (!(await templateStore.remove(req.params.id))) {
+      res.status(404).json({ error: "Template not found." });
+      return;
+    }
+    res.json({ ok: true });
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : "Delete failed." });
+  }
+});
+
+app.post("/api/templates/:id/instantiate", requireRole("viewer"), async (req, res) => {
+  try {
+    const template = await templateStore.get(req.params.id);
+    if (!template) {
+      res.status(404).json({ error: "Template not found." });
+      return;
+    }
+    const values =
+      req.body?.variables && typeof req.body.variables === "object" ? req.body.variables : {};
+    const instance = instantiateTemplate(template.plan, values);
+    if (!instance.ok) {
+      res
+        .status(400)
+        .json({ error: "Fill in every template variable.", missing: instance.missing });
+      return;
+    }
+    res.json({ plan: instance.plan });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to load template." });
+  }
+});
+
+notebookRoutes.post("/plan", requireNotebookWrite("run-launcher"), async (req, res) => {
   const prompt = String(req.body?.prompt ?? "").trim();
   if (!prompt) {
     res.status(400).json({ error: "Prompt is required." });
@@ -205,18 +1118,287 @@ app.post("/api/plan", async (req, res) => {
   }
 
   try {
+    const warnings: RunWarning[] = [];
     const plan = await createPlan({
       prompt,
-      workspaceRoot,
-      onStatus: () => undefined
+      workspaceRoot: currentNotebook(res).root,
+      provider: modelProvider,
+      onStatus: () => undefined,
+      onWarning: (warning) => warnings.push(warning)
     });
-    res.json({ plan });
+    res.json({ plan, warnings });
   } catch (error) {
     res.status(500).json({ error: "Failed to create plan." });
   }
 });
 
-app.post("/api/run", async (req, res) => {
+type RunInput = Pick<
+  RunRecord,
+  | "prompt"
+  | "plan"
+  | "clarifications"
+  | "startingStepIndex"
+  | "sourceRunId"
+  | "rerunStepId"
+  | "createdBy"
+  | "notebookId"
+> & {
+  priorArtifacts: { path: string; content: string }[];
+  priority: RunPriority;
+};
+
+const finishRun = (run: RunState, patch: Partial<RunRecord>, event: RunEvent) => {
+  updateRun(run, { ...patch, finishedAt: new Date().toISOString() });
+  emitRunEvent(run, event);
+  run.partials.clear();
+  run.approvals.clear();
+  run.questions.clear();
+  runQueue.finish(run.id);
+};
+
+const failRun = (run: RunState, message: string) =>
+  finishRun(run, { status: "error", error: message }, { event: "error", data: { message } });
+
+/** Sends a queued run to the worker process, with the step results it may reuse. */
+const dispatchRun = async (runId: string) => {
+  const run = runs.get(runId);
+  if (!run) {
+    runQueue.finish(runId);
+    return;
+  }
+  const { record } = run;
+  updateRun(run, { status: "running" });
+  emitRunEvent(run, {
+    event: "started",
+    data: { message: "Started", runId, tokenBudget, sourceRunId: record.sourceRunId }
+  });
+  try {
+    const source = record.sourceRunId ? await getRun(record.sourceRunId) : null;
+    workerProcess.send({
+      type: "start",
+      job: {
+        runId,
+        prompt: record.prompt,
+        plan: record.plan,
+        workspaceRoot: notebookStore.rootOf(record.notebookId ?? DEFAULT_NOTEBOOK_ID),
+        clarifications: record.clarifications,
+        priorArtifacts: record.priorArtifacts ?? [],
+        startingStepIndex: record.startingStepIndex,
+        checkpoints: source
+          ? selectCheckpoints(record.plan, source.record, record.rerunStepId)
+          : [],
+        maxParallelSteps,
+        maxRunTokens: tokenBudget.run,
+        maxStepTokens: tokenBudget.step,
+        retryPolicy
+      }
+    });
+  } catch (error) {
+    failRun(run, error instanceof Error ? error.message : "Failed to start the run.");
+  }
+};
+
+const stepTitle = (run: RunState, stepId: string) =>
+  run.record.plan.steps.find((step) => step.id === stepId)?.title ?? stepId;
+
+/** Applies one progress message from the worker process to its run. */
+const handleWorkerMessage = (message: WorkerMessage) => {
+  if (message.type === "ready") {
+    return;
+  }
+  const run = runs.get(message.runId);
+  if (!run || run.status !== "running") {
+    return;
+  }
+  const { runId } = message;
+
+  if (message.type === "status") {
+    emitRunEvent(run, { event: "planning", data: { message: message.message } });
+  } else if (message.type === "usage") {
+    updateRun(run, { usage: message.usage });
+  } else if (message.type === "step_started") {
+    const { step, excerpts } = message;
+    emitRunEvent(run, {
+      event: "step_started",
+      data: { stepId: step.id, title: step.title, agent: step.agent, excerpts }
+    });
+  } else if (message.type === "step_delta") {
+    emitStepDelta(run, message.delta);
+  } else if (message.type === "step_failed") {
+    run.partials.delete(message.failure.stepId);
+    emitRunEvent(run, {
+      event: "step_failed",
+      data: { ...message.failure, title: stepTitle(run, message.failure.stepId) }
+    });
+  } else if (message.type === "step_reused") {
+    const stepResult = message.result;
+    updateRun(run, { steps: [...run.record.steps, stepResult] });
+    emitRunEvent(run, {
+      event: "step_completed",
+      data: {
+        stepId: stepResult.stepId,
+        title: stepResult.title,
+        agent: stepResult.agent,
+        usage: stepResult.usage,
+        reused: true
+      }
+    });
+  } else if (message.type === "step_completed") {
+    const stepResult = message.result;
+    run.partials.delete(stepResult.stepId);
+    updateRun(run, { steps: [...run.record.steps, stepResult] });
+    emitRunEvent(run, {
+      event: "step_completed",
+      data: {
+        stepId: stepResult.stepId,
+        title: stepResult.title,
+        agent: stepResult.agent,
+        usage: stepResult.usage,
+        runUsage: run.record.usage,
+        ...(stepResult.attempts ? { attempts: stepResult.attempts } : {}),
+        ...(stepResult.skipped ? { skipped: stepResult.skipped } : {})
+      }
+    });
+  } else if (message.type === "awaiting_approval") {
+    const stepResult = message.result;
+    run.approvals.set(stepResult.stepId, (decision) =>
+      workerProcess.send({ type: "approval", runId, stepId: stepResult.stepId, decision })
+    );
+    emitRunEvent(run, {
+      event: "awaiting_approval",
+      data: {
+        stepId: stepResult.stepId,
+        title: stepResult.title,
+        agent: stepResult.agent,
+        output: stepResult.output
+      }
+    });
+  } else if (message.type === "question") {
+    const { id, stepId, question } = message.question;
+    run.questions.set(id, (answer) => {
+      if (answer) {
+        const clarification = { id, question, answer, stepId };
+        updateRun(run, { clarifications: [...run.record.clarifications, clarification] });
+        emitRunEvent(run, { event: "answered", data: clarification });
+      }
+      workerProcess.send({ type: "answer", runId, questionId: id, answer });
+    });
+    emitRunEvent(run, { event: "question", data: { id, stepId, question } });
+  } else if (message.type === "warning") {
+    emitRunEvent(run, { event: "warning", data: message.warning });
+  } else if (message.type === "artifact_written") {
+    const { artifact } = message;
+    updateRun(run, { artifacts: [...run.record.artifacts, artifact] });
+    emitRunEvent(run, { event: "artifact_written", data: { path: artifact.relativePath } });
+  } else if (message.type === "done") {
+    const { result } = message;
+    finishRun(
+      run,
+      { status: "done", result },
+      {
+        event: "done",
+        data: {
+          message: "Done",
+          artifacts: result.artifacts,
+          steps: result.steps,
+          sources: result.sources,
+          citations: result.citations,
+          outputs: result.outputs,
+          mainArtifact: result.mainArtifact,
+          plan: result.plan,
+          usage: result.usage
+        }
+      }
+    );
+  } else if (message.cancelled || run.cancelled) {
+    finishRun(run, { status: "cancelled" }, { event: "cancelled", data: { message: "Cancelled" } });
+  } else {
+    failRun(run, message.error);
+  }
+};
+
+const runQueue = createRunQueue({
+  maxConcurrent: Number.parseInt(process.env.MAX_CONCURRENT_RUNS ?? "", 10) || 2,
+  dispatch: (runId) => void dispatchRun(runId)
+});
+
+const workerProcess = createWorkerProcess({
+  entry: path.join(repoRoot, "apps", "worker", "dist", "runner.js"),
+  onMessage: handleWorkerMessage,
+  onExit: (reason) => {
+    console.error(`Worker process exited (${reason}); restarting.`);
+    for (const runId of runQueue.running()) {
+      const run = runs.get(runId);
+      if (run) {
+        failRun(run, "Run interrupted by a worker restart.");
+      } else {
+        runQueue.finish(runId);
+      }
+    }
+  }
+});
+
+/** Records a new run and adds it to the queue; the worker process executes it. */
+const enqueueRun = ({
+  prompt,
+  plan,
+  clarifications,
+  startingStepIndex,
+  priorArtifacts,
+  sourceRunId,
+  rerunStepId,
+  priority,
+  createdBy,
+  notebookId
+}: RunInput) => {
+  const runId = randomUUID();
+  const now = new Date().toISOString();
+  const run: RunState = {
+    id: runId,
+    events: [],
+    listeners: new Set(),
+    status: "queued",
+    cancelled: false,
+    approvals: new Map(),
+    questions: new Map(),
+    partials: new Map(),
+    record: {
+      id: runId,
+      status: "queued",
+      prompt,
+      plan,
+      clarifications,
+      startingStepIndex,
+      priority,
+      createdBy,
+      notebookId,
+      ...(priorArtifacts.length > 0 ? { priorArtifacts } : {}),
+      ...(sourceRunId ? { sourceRunId } : {}),
+      ...(rerunStepId ? { rerunStepId } : {}),
+      createdAt: now,
+      updatedAt: now,
+      steps: [],
+      artifacts: []
+    }
+  };
+  runs.set(runId, run);
+  updateRun(run, {});
+  emitRunEvent(run, { event: "queued", data: { message: "Queued", runId, priority } });
+  runQueue.enqueue(runId, priority);
+  return run;
+};
+
+const parsePriority = (value: unknown): RunPriority =>
+  RUN_PRIORITIES.includes(value as RunPriority) ? (value as RunPriority) : "normal";
+
+/** Finds a run only when it belongs to the notebook the request is scoped to. */
+const getNotebookRun = async (res: express.Response, id: string) => {
+  const run = await getRun(id);
+  const notebookId = run?.record.notebookId ?? DEFAULT_NOTEBOOK_ID;
+  return run && notebookId === currentNotebook(res).notebook.id ? run : null;
+};
+
+notebookRoutes.post("/run", requireNotebookWrite("run-launcher"), async (req, res) => {
   const prompt = String(req.body?.prompt ?? "").trim();
   const planInput = req.body?.plan as RunPlan | undefined;
   if (!prompt || !planInput) {
@@ -225,9 +1407,23 @@ app.post("/api/run", async (req, res) => {
   }
 
   const plan = normalizePlanInput(planInput);
-  const clarifications = String(req.body?.clarifications ?? "").trim();
-  if (plan.questions.length > 0 && !clarifications) {
-    res.status(400).json({ error: "Clarifications required before running the plan." });
+  const cycle = findDependencyCycle(plan.steps);
+  if (cycle) {
+    res.status(400).json({ error: `Plan steps have a dependency cycle: ${cycle.join(" -> ")}.` });
+    return;
+  }
+  const unfilled = findTemplateVariables(plan);
+  if (unfilled.length > 0) {
+    res.status(400).json({ error: "Fill in the template variables before running.", unfilled });
+    return;
+  }
+  const clarifications = normalizeClarifications(req.body?.clarifications, plan.questions);
+  const answered = new Set(clarifications.map((clarification) => clarification.id));
+  const missing = plan.questions
+    .map((_question, index) => planQuestionId(index))
+    .filter((id) => !answered.has(id));
+  if (missing.length > 0 && !answered.has(LEGACY_CLARIFICATION_ID)) {
+    res.status(400).json({ error: "Answer every clarifying question before running.", missing });
     return;
   }
 
@@ -239,95 +1435,224 @@ app.post("/api/run", async (req, res) => {
       }))
     : [];
 
-  const runId = randomUUID();
-  const run: RunState = {
-    id: runId,
-    events: [],
-    listeners: new Set(),
-    status: "running",
-    cancelled: false
-  };
-  runs.set(runId, run);
+  const firstStepIndex = Number.isNaN(startingStepIndex) ? 0 : startingStepIndex;
+  const sourceRunId = req.body?.sourceRunId ? String(req.body.sourceRunId) : undefined;
+  if (sourceRunId && !(await getNotebookRun(res, sourceRunId))) {
+    res.status(404).json({ error: "Source run not found." });
+    return;
+  }
 
-  emitRunEvent(run, { event: "started", data: { message: "Started", runId } });
+  const run = enqueueRun({
+    prompt,
+    plan,
+    clarifications,
+    startingStepIndex: firstStepIndex,
+    priorArtifacts,
+    sourceRunId,
+    rerunStepId: sourceRunId ? plan.steps[firstStepIndex]?.id : undefined,
+    priority: parsePriority(req.body?.priority),
+    createdBy: currentUser(res).username,
+    notebookId: currentNotebook(res).notebook.id
+  });
+  res.json({ runId: run.id, status: run.status, position: runQueue.position(run.id) });
+});
 
-  void (async () => {
-    try {
-      emitRunEvent(run, { event: "planning", data: { message: "Planning" } });
-
-      const result = await runAgent({
-        prompt,
-        plan,
-        workspaceRoot,
-        clarifications,
-        priorArtifacts,
-        startingStepIndex: Number.isNaN(startingStepIndex) ? 0 : startingStepIndex,
-        shouldCancel: () => run.cancelled,
-        onStatus: (message) => emitRunEvent(run, { event: "planning", data: { message } }),
-        onStepStart: (step) =>
-          emitRunEvent(run, {
-            event: "step_started",
-            data: { stepId: step.id, title: step.title, agent: step.agent }
-          }),
-        onStepComplete: (stepResult) =>
-          emitRunEvent(run, {
-            event: "step_completed",
-            data: { stepId: stepResult.stepId, title: stepResult.title, agent: stepResult.agent }
-          }),
-        onArtifactWritten: (artifact: ArtifactResult) =>
-          emitRunEvent(run, {
-            event: "artifact_written",
-            data: { path: artifact.relativePath }
-          })
-      });
-
-      run.status = "done";
-      emitRunEvent(run, {
-        event: "done",
-        data: {
-          message: "Done",
-          artifacts: result.artifacts,
-          steps: result.steps,
-          sources: result.sources,
-          outputs: result.outputs,
-          mainArtifact: result.mainArtifact,
-          plan: result.plan
-        }
-      });
-    } catch (error) {
-      if (run.cancelled) {
-        run.status = "cancelled";
-        emitRunEvent(run, {
-          event: "cancelled",
-          data: { message: "Cancelled" }
-        });
-        return;
+/**
+ * Continues a failed, cancelled or interrupted run as a new run that reuses
+ * the steps it completed.
+ */
+notebookRoutes.post("/run/:id/resume", requireNotebookWrite("run-launcher"), async (req, res) => {
+  const source = await getNotebookRun(res, req.params.id);
+  if (!source) {
+    res.status(404).json({ error: "Run not found." });
+    return;
+  }
+  if (source.status === "queued" || source.status === "running" || source.status === "done") {
+    res.status(409).json({ error: `Run is ${source.status}; only stopped runs can be resumed.` });
+    return;
+  }
+  const { prompt, plan, clarifications, startingStepIndex, priorArtifacts } = source.record;
+  const run = enqueueRun({
+    prompt,
+    plan,
+    clarifications,
+    startingStepIndex,
+    priorArtifacts: priorArtifacts ?? [],
+    sourceRunId: source.id,
+    priority: parsePriority(req.body?.priority ?? source.record.priority),
+    createdBy: currentUser(res).username,
+    notebookId: currentNotebook(res).notebook.id
+  });
+  res.json({ runId: run.id, status: run.status, position: runQueue.position(run.id) });
+});
+
+notebookRoutes.get("/runs", requireRole("viewer"), async (req, res) => {
+  try {
+    const filter = parseRunFilter(req.query);
+    const notebookId = currentNotebook(res).notebook.id;
+    const records: RunRecord[] = [];
+    for (const id of await runStore.listIds()) {
+      const record = runs.get(id)?.record ?? (await runStore.loadRecord(id));
+      const inNotebook = (record?.notebookId ?? DEFAULT_NOTEBOOK_ID) === notebookId;
+      if (record && inNotebook && matchesRunFilter(record, filter)) {
+        records.push(record);
       }
-      run.status = "error";
-      emitRunEvent(run, {
-        event: "error",
-        data: {
-          message: error instanceof Error ? error.message : "Run failed"
-        }
-      });
     }
-  })();
+    records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    res.json({ runs: records.map(summarizeRun) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to list runs." });
+  }
+});
 
-  res.json({ runId });
+notebookRoutes.get("/runs/:id", requireRole("viewer"), async (req, res) => {
+  const run = await getNotebookRun(res, req.params.id);
+  if (!run) {
+    res.status(404).json({ error: "Run not found." });
+    return;
+  }
+  res.json({ run: { ...run.record, timings: getRunTimings(run.record, run.events) } });
 });
 
-app.post("/api/run/:id/cancel", (req, res) => {
-  const run = runs.get(req.params.id);
+/**
+ * Downloads the run's main artifact with Next Actions, Open Questions and
+ * Sources as one ZIP, standalone HTML or DOCX file behind a cover page. Docs
+ * edited since the run are exported as they are now.
+ */
+notebookRoutes.get("/run/:id/export", requireRole("viewer"), async (req, res) => {
+  const run = await getNotebookRun(res, req.params.id);
   if (!run) {
     res.status(404).json({ error: "Run not found." });
     return;
   }
+  const format = String(req.query.format ?? "zip") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(", ")}.` });
+    return;
+  }
+  const artifacts = selectBundleArtifacts(run.record.artifacts);
+  if (artifacts.length === 0) {
+    res.status(409).json({ error: "Run has no artifacts to export yet." });
+    return;
+  }
+  try {
+    const { ensureDocsPath } = currentNotebook(res);
+    const docs = await Promise.all(
+      artifacts.map(async (artifact) => ({
+        path: artifact.relativePath,
+        content: await fs
+          .readFile(ensureDocsPath(artifact.relativePath), "utf8")
+          .catch(() => artifact.content)
+      }))
+    );
+    const exported = exportBundle(format, {
+      goal: run.record.prompt,
+      plan: run.record.plan,
+      date: run.record.finishedAt ?? run.record.createdAt,
+      docs
+    });
+    res.attachment(exported.fileName).type(exported.contentType).send(exported.data);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to export run." });
+  }
+});
+
+notebookRoutes.post("/run/:id/cancel", requireRole("run-launcher"), async (req, res) => {
+  const run = await getNotebookRun(res, req.params.id);
+  if (!run) {
+    res.status(404).json({ error: "Run not found." });
+    return;
+  }
+  if (run.status === "queued" && runQueue.remove(run.id)) {
+    run.cancelled = true;
+    finishRun(run, { status: "cancelled" }, { event: "cancelled", data: { message: "Cancelled" } });
+    res.json({ status: "cancelled" });
+    return;
+  }
   run.cancelled = true;
+  // The worker rejects pending approvals and questions itself.
+  run.approvals.clear();
+  run.questions.clear();
+  workerProcess.send({ type: "cancel", runId: run.id });
   res.json({ status: "cancelling" });
 });
 
-app.get("/api/run/:id/events", (req, res) => {
-  const run = runs.get(req.params.id);
+notebookRoutes.post("/run/:id/answers", requireRole("run-launcher"), async (req, res) => {
+  const run = await getNotebookRun(res, req.params.id);
+  if (!run) {
+    res.status(404).json({ error: "Run not found." });
+    return;
+  }
+  const answers = Array.isArray(req.body?.answers) ? req.body.answers : [];
+  const accepted: string[] = [];
+  for (const item of answers as Record<string, unknown>[]) {
+    const id = String(item?.id ?? "");
+    const answer = String(item?.answer ?? "").trim();
+    const resolve = run.questions.get(id);
+    if (!resolve || !answer) {
+      continue;
+    }
+    run.questions.delete(id);
+    resolve(answer);
+    accepted.push(id);
+  }
+  if (accepted.length === 0) {
+    res.status(409).json({ error: "No open question matched the answers." });
+    return;
+  }
+  res.json({ accepted });
+});
+
+const REVIEW_ACTIONS = ["approve", "reject", "edit"];
+
+notebookRoutes.post(
+  "/run/:id/steps/:stepId/:action",
+  requireRole("run-launcher"),
+  async (req, res) => {
+    const { stepId, action } = req.params;
+    if (!REVIEW_ACTIONS.includes(action)) {
+      res.status(404).json({ error: "Unknown review action." });
+      return;
+    }
+    const run = await getNotebookRun(res, req.params.id);
+    const resolve = run?.approvals.get(stepId);
+    if (!run || !resolve) {
+      res.status(409).json({ error: "Step is not awaiting approval." });
+      return;
+    }
+    const output = typeof req.body?.output === "string" ? req.body.output : "";
+    if (action === "edit" && !output.trim()) {
+      res.status(400).json({ error: "Edited output is required." });
+      return;
+    }
+    const reason = String(req.body?.reason ?? "").trim();
+    const decision: ApprovalDecision =
+      action === "edit"
+        ? { action, output }
+        : action === "reject"
+          ? { action, reason: reason || undefined }
+          : { action: "approve" };
+    run.approvals.delete(stepId);
+    emitRunEvent(run, {
+      event: "step_reviewed",
+      data: { stepId, action, reviewer: currentUser(res).username, ...(reason ? { reason } : {}) }
+    });
+    resolve(decision);
+    res.json({ stepId, action });
+  }
+);
+
+app.get("/api/queue", requireRole("viewer"), (_req, res) => {
+  res.json({ ...runQueue.snapshot(), worker: workerProcess.status() });
+});
+
+app.post("/api/worker/restart", requireRole("admin"), (_req, res) => {
+  workerProcess.restart();
+  res.json({ status: "restarting" });
+});
+
+notebookRoutes.get("/run/:id/events", requireRole("viewer"), async (req, res) => {
+  const run = await getNotebookRun(res, req.params.id);
   if (!run) {
     res.status(404).json({ error: "Run not found." });
     return;
@@ -345,6 +1670,12 @@ app.get("/api/run/:id/events", (req, res) => {
   };
 
   run.events.forEach(sendEvent);
+  for (const partial of run.partials.values()) {
+    sendEvent({
+      event: "step_delta",
+      data: { stepId: partial.stepId, attempt: partial.attempt, delta: partial.text }
+    });
+  }
   const listener = (event: RunEvent) => sendEvent(event);
   run.listeners.add(listener);
 
@@ -358,7 +1689,31 @@ app.get("/api/run/:id/events", (req, res) => {
   });
 });
 
+/** Creates the first admin from the environment, so a fresh install can be scripted. */
+const bootstrapAdmin = async () => {
+  const username = process.env.AUTH_ADMIN_USERNAME?.trim();
+  const password = process.env.AUTH_ADMIN_PASSWORD ?? "";
+  if (!username || (await authStore.hasUsers())) {
+    return;
+  }
+  const input = parseUserInput({ username, password });
+  if ("error" in input) {
+    console.error(`AUTH_ADMIN_USERNAME/AUTH_ADMIN_PASSWORD ignored: ${input.error}`);
+    return;
+  }
+  if (await authStore.createUser({ ...input, roles: ["admin"] }, { firstUser: true })) {
+    console.log(`Created admin account "${username}".`);
+  }
+};
+
+// Registered last so the unscoped `/api` mount does not shadow the routes above.
+app.use("/api/notebooks/:notebookId", notebookRoutes);
+app.use("/api", notebookRoutes);
+
+await bootstrapAdmin();
+await recoverInterruptedRuns();
+
 app.listen(port, async () => {
-  await fs.mkdir(docsRoot, { recursive: true });
+  await fs.mkdir(path.join(workspaceRoot, "docs"), { recursive: true });
   console.log(`API listening on http://localhost:${port}`);
 });
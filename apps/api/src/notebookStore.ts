@@ -0,0 +1,127 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { toTemplateId } from "./templateStore.js";
+
+export type Notebook = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Archived notebooks are hidden from the switcher and refuse new edits and runs. */
+  archivedAt?: string;
+};
+
+export type NotebookStore = ReturnType<typeof createNotebookStore>;
+
+export const DEFAULT_NOTEBOOK_ID = "default";
+
+const INSTRUCTIONS_FILE = "AGENT_INSTRUCTIONS.md";
+
+/**
+ * Notebooks registered in `<workspaceRoot>/notebooks.json`. The default
+ * notebook is the workspace folder itself; every other notebook gets its own
+ * `<workspaceRoot>/notebooks/<id>` folder with docs, agents and instructions.
+ */
+export const createNotebookStore = (workspaceRoot: string) => {
+  const target = path.join(workspaceRoot, "notebooks.json");
+  let state: Promise<Notebook[]> | null = null;
+  let writes = Promise.resolve();
+
+  const load = () => {
+    state ??= fs
+      .readFile(target, "utf8")
+      .then((raw) => (JSON.parse(raw) as { notebooks: Notebook[] }).notebooks)
+      .catch((error) => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return [];
+        }
+        state = null;
+        throw error;
+      })
+      .then((notebooks) => {
+        if (notebooks.some((notebook) => notebook.id === DEFAULT_NOTEBOOK_ID)) {
+          return notebooks;
+        }
+        const now = new Date().toISOString();
+        return [{ id: DEFAULT_NOTEBOOK_ID, name: "Workspace", createdAt: now, updatedAt: now }];
+      });
+    return state;
+  };
+
+  const persist = (notebooks: Notebook[]) => {
+    const snapshot = JSON.stringify({ notebooks }, null, 2);
+    const write = writes.then(async () => {
+      const temp = `${target}.tmp`;
+      await fs.writeFile(temp, snapshot, "utf8");
+      await fs.rename(temp, target);
+    });
+    writes = write.catch(() => undefined);
+    return write;
+  };
+
+  const rootOf = (id: string) =>
+    id === DEFAULT_NOTEBOOK_ID ? workspaceRoot : path.join(workspaceRoot, "notebooks", id);
+
+  const list = async ({ archived = false } = {}) =>
+    (await load()).filter((notebook) => archived || !notebook.archivedAt);
+
+  const get = async (id: string) =>
+    (await load()).find((notebook) => notebook.id === id) ?? null;
+
+  /** New notebooks start with an empty docs folder and a copy of the default instructions. */
+  const create = async (name: string) => {
+    const notebooks = await load();
+    const base = toTemplateId(name) || "notebook";
+    let id = base;
+    for (let suffix = 2; notebooks.some((notebook) => notebook.id === id); suffix += 1) {
+      id = `${base}-${suffix}`;
+    }
+    const root = rootOf(id);
+    await fs.mkdir(path.join(root, "docs"), { recursive: true });
+    const instructions = await fs
+      .readFile(path.join(workspaceRoot, INSTRUCTIONS_FILE), "utf8")
+      .catch(() => "");
+    await fs.writeFile(path.join(root, INSTRUCTIONS_FILE), instructions, { flag: "wx" }).catch(
+      () => undefined
+    );
+    const now = new Date().toISOString();
+    const notebook: Notebook = { id, name: name.trim(), createdAt: now, updatedAt: now };
+    notebooks.push(notebook);
+    try {
+      await persist(notebooks);
+    } catch (error) {
+      notebooks.splice(notebooks.indexOf(notebook), 1);
+      throw error;
+    }
+    return notebook;
+  };
+
+  const update = async (id: string, patch: { name?: string; archived?: boolean }) => {
+    const notebooks = await load();
+    const notebook = notebooks.find((item) => item.id === id);
+    if (!notebook) {
+      return null;
+    }
+    const previous = { ...notebook };
+    if (patch.name) {
+      notebook.name = patch.name.trim();
+    }
+    if (patch.archived !== undefined) {
+      if (patch.archived) {
+        notebook.archivedAt ??= new Date().toISOString();
+      } else {
+        delete notebook.archivedAt;
+      }
+    }
+    notebook.updatedAt = new Date().toISOString();
+    try {
+      await persist(notebooks);
+    } catch (error) {
+      notebooks.splice(notebooks.indexOf(notebook), 1, previous);
+      throw error;
+    }
+    return notebook;
+  };
+
+  return { rootOf, list, get, create, update };
+};
@@ -0,0 +1,124 @@
+import type { TokenUsage } from "@mvp/worker";
+import type { RunEvent, RunRecord, RunStatus } from "./runStore.js";
+
+export type RunSummary = {
+  id: string;
+  status: RunStatus;
+  prompt: string;
+  interpretedGoal: string;
+  createdBy?: string;
+  createdAt: string;
+  finishedAt?: string;
+  durationMs: number | null;
+  stepCount: number;
+  artifactCount: number;
+  mainArtifact?: string;
+  usage?: TokenUsage;
+};
+
+export type RunFilter = {
+  status?: RunStatus;
+  from?: number;
+  to?: number;
+  query?: string;
+};
+
+export type StepTiming = {
+  stepId: string;
+  startedAt: string;
+  completedAt?: string;
+  durationMs: number | null;
+};
+
+export type RunTimings = {
+  startedAt: string;
+  finishedAt?: string;
+  durationMs: number | null;
+  steps: StepTiming[];
+};
+
+const RUN_STATUSES: RunStatus[] = ["queued", "running", "done", "error", "cancelled"];
+
+const elapsed = (start: string, end?: string) => {
+  if (!end) {
+    return null;
+  }
+  const value = Date.parse(end) - Date.parse(start);
+  return Number.isNaN(value) ? null : value;
+};
+
+const parseDate = (value: unknown) => {
+  if (typeof value !== "string" || !value.trim()) {
+    return undefined;
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+export const parseRunFilter = (query: Record<string, unknown>): RunFilter => {
+  const status = String(query.status ?? "") as RunStatus;
+  return {
+    status: RUN_STATUSES.includes(status) ? status : undefined,
+    from: parseDate(query.from),
+    to: parseDate(query.to),
+    query: String(query.q ?? "").trim().toLowerCase() || undefined
+  };
+};
+
+export const matchesRunFilter = (record: RunRecord, filter: RunFilter) => {
+  if (filter.status && record.status !== filter.status) {
+    return false;
+  }
+  const createdAt = Date.parse(record.createdAt);
+  if (filter.from !== undefined && createdAt < filter.from) {
+    return false;
+  }
+  if (filter.to !== undefined && createdAt > filter.to) {
+    return false;
+  }
+  if (filter.query) {
+    const haystack = `${record.prompt}\n${record.plan.interpretedGoal}`.toLowerCase();
+    return haystack.includes(filter.query);
+  }
+  return true;
+};
+
+export const summarizeRun = (record: RunRecord): RunSummary => ({
+  id: record.id,
+  status: record.status,
+  prompt: record.prompt,
+  interpretedGoal: record.plan.interpretedGoal,
+  createdBy: record.createdBy,
+  createdAt: record.createdAt,
+  finishedAt: record.finishedAt,
+  durationMs: elapsed(record.createdAt, record.finishedAt),
+  stepCount: record.steps.length,
+  artifactCount: record.artifacts.length,
+  mainArtifact: record.result?.mainArtifact,
+  usage: record.usage
+});
+
+export const getRunTimings = (record: RunRecord, events: RunEvent[]): RunTimings => {
+  const steps = new Map<string, StepTiming>();
+  for (const event of events) {
+    const stepId = String(event.data.stepId ?? "");
+    if (!stepId || !event.timestamp) {
+      continue;
+    }
+    if (event.event === "step_started") {
+      steps.set(stepId, { stepId, startedAt: event.timestamp, durationMs: null });
+    }
+    const started = steps.get(stepId);
+    if (event.event === "step_completed" && started) {
+      started.completedAt = event.timestamp;
+      started.durationMs = elapsed(started.startedAt, event.timestamp);
+    }
+  }
+
+  return {
+    startedAt: record.createdAt,
+    finishedAt: record.finishedAt,
+    durationMs: elapsed(record.createdAt, record.finishedAt),
+    steps: Array.from(steps.values())
+  };
+};
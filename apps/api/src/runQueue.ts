@@ -0,0 +1,80 @@
+export type RunPriority = "low" | "normal" | "high";
+
+export const RUN_PRIORITIES: RunPriority[] = ["low", "normal", "high"];
+
+const PRIORITY_RANK: Record<RunPriority, number> = { low: 0, normal: 1, high: 2 };
+
+type QueuedRun = {
+  runId: string;
+  priority: RunPriority;
+  sequence: number;
+};
+
+const byPriority = (a: QueuedRun, b: QueuedRun) =>
+  PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || a.sequence - b.sequence;
+
+export type RunQueue = ReturnType<typeof createRunQueue>;
+
+/**
+ * In-memory queue that starts at most `maxConcurrent` runs at a time, higher
+ * priorities first and in arrival order within a priority. `dispatch` hands a
+ * run to the worker; `finish` frees its slot once the run has ended.
+ */
+export const createRunQueue = ({
+  maxConcurrent,
+  dispatch
+}: {
+  maxConcurrent: number;
+  dispatch: (runId: string) => void;
+}) => {
+  const waiting: QueuedRun[] = [];
+  const running = new Set<string>();
+  let sequence = 0;
+
+  const pump = () => {
+    while (running.size < maxConcurrent && waiting.length > 0) {
+      waiting.sort(byPriority);
+      const [next] = waiting.splice(0, 1);
+      running.add(next.runId);
+      dispatch(next.runId);
+    }
+  };
+
+  const enqueue = (runId: string, priority: RunPriority = "normal") => {
+    waiting.push({ runId, priority, sequence: (sequence += 1) });
+    pump();
+  };
+
+  const finish = (runId: string) => {
+    if (running.delete(runId)) {
+      pump();
+    }
+  };
+
+  /** Drops a run that has not started yet; returns false once it is running. */
+  const remove = (runId: string) => {
+    const index = waiting.findIndex((item) => item.runId === runId);
+    if (index === -1) {
+      return false;
+    }
+    waiting.splice(index, 1);
+    return true;
+  };
+
+  /** 1-based place in line, or null when the run is not waiting. */
+  const position = (runId: string) => {
+    const ordered = [...waiting].sort(byPriority);
+    const index = ordered.findIndex((item) => item.runId === runId);
+    return index === -1 ? null : index + 1;
+  };
+
+  const snapshot = () => ({
+    maxConcurrent,
+    running: Array.from(running),
+    queued: [...waiting]
+      .sort(byPriority)
+      .map(({ runId, priority }, index) => ({ runId, priority, position: index + 1 }))
+  });
+
+  return { enqueue, finish, remove, position, snapshot, running: () => Array.from(running) };
+};
@@ -0,0 +1,144 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  ArtifactResult,
+  Clarification,
+  RunAgentResult,
+  RunPlan,
+  StepResult,
+  TokenUsage
+} from "@mvp/worker";
+import type { RunPriority } from "./runQueue.js";
+
+export type RunEventName =
+  | "queued"
+  | "started"
+  | "planning"
+  | "step_started"
+  | "step_delta"
+  | "awaiting_approval"
+  | "step_reviewed"
+  | "question"
+  | "answered"
+  | "step_failed"
+  | "step_completed"
+  | "artifact_written"
+  | "warning"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export type RunEvent = {
+  event: RunEventName;
+  data: Record<string, unknown>;
+  timestamp?: string;
+};
+
+export type RunStatus = "queued" | "running" | "done" | "error" | "cancelled";
+
+export type RunRecord = {
+  id: string;
+  status: RunStatus;
+  prompt: string;
+  plan: RunPlan;
+  clarifications: Clarification[];
+  startingStepIndex: number;
+  priorArtifacts?: { path: string; content: string }[];
+  priority?: RunPriority;
+  /** Username of whoever started the run. */
+  createdBy?: string;
+  /** Notebook the run reads and writes; runs from before notebooks belong to the default one. */
+  notebookId?: string;
+  /** Run whose step results were reused, when resuming or re-running from a step. */
+  sourceRunId?: string;
+  /** Step that re-runs even though the source run completed it. */
+  rerunStepId?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  steps: StepResult[];
+  artifacts: ArtifactResult[];
+  result?: RunAgentResult;
+  usage?: TokenUsage;
+  error?: string;
+};
+
+export type RunStore = ReturnType<typeof createRunStore>;
+
+const RECORD_FILE = "run.json";
+const EVENTS_FILE = "events.jsonl";
+
+/**
+ * File-backed store with one directory per run: `run.json` holds the latest
+ * record and `events.jsonl` the append-only event log. Writes for a run are
+ * chained so the log order matches emit order.
+ */
+export const createRunStore = (runsRoot: string) => {
+  const queues = new Map<string, Promise<void>>();
+
+  const runDir = (id: string) => {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error("Invalid run id.");
+    }
+    return path.join(runsRoot, id);
+  };
+
+  const enqueue = (id: string, task: () => Promise<void>) => {
+    const next = (queues.get(id) ?? Promise.resolve()).then(task).catch((error) => {
+      console.error(`Failed to persist run ${id}:`, error);
+    });
+    queues.set(id, next);
+    return next;
+  };
+
+  const writeRecord = async (record: RunRecord) => {
+    const dir = runDir(record.id);
+    const target = path.join(dir, RECORD_FILE);
+    const temp = `${target}.tmp`;
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(record, null, 2), "utf8");
+    await fs.rename(temp, target);
+  };
+
+  const save = (record: RunRecord) =>
+    enqueue(record.id, () => writeRecord({ ...record, updatedAt: new Date().toISOString() }));
+
+  const appendEvent = (id: string, event: RunEvent) =>
+    enqueue(id, async () => {
+      await fs.mkdir(runDir(id), { recursive: true });
+      await fs.appendFile(path.join(runDir(id), EVENTS_FILE), `${JSON.stringify(event)}\n`, "utf8");
+    });
+
+  const loadRecord = async (id: string): Promise<RunRecord | null> => {
+    try {
+      const raw = await fs.readFile(path.join(runDir(id), RECORD_FILE), "utf8");
+      return JSON.parse(raw) as RunRecord;
+    } catch {
+      return null;
+    }
+  };
+
+  const loadEvents = async (id: string): Promise<RunEvent[]> => {
+    const raw = await fs.readFile(path.join(runDir(id), EVENTS_FILE), "utf8").catch(() => "");
+    return raw
+      .split("\n")
+      .filter(Boolean)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as RunEvent];
+        } catch {
+          return [];
+        }
+      });
+  };
+
+  const listIds = async () => {
+    await fs.mkdir(runsRoot, { recursive: true });
+    const entries = await fs.readdir(runsRoot, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  };
+
+  const flush = (id: string) => queues.get(id) ?? Promise.resolve();
+
+  return { save, appendEvent, loadRecord, loadEvents, listIds, flush };
+};
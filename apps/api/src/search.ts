@@ -0,0 +1,298 @@
+import fs from "node:fs/promises";
+import { createChunkIndex, isStopword, normalizeTerm, tokenize } from "@mvp/worker";
+
+export type SearchHighlight = {
+  start: number;
+  end: number;
+};
+
+export type SearchPassage = {
+  line: number;
+  text: string;
+  highlights: SearchHighlight[];
+};
+
+export type SearchResult = {
+  path: string;
+  score: number;
+  snippet: string;
+  passages: SearchPassage[];
+};
+
+type QueryItem = {
+  kind: "term" | "phrase";
+  words: string[];
+  negated: boolean;
+};
+
+export type ParsedQuery = {
+  clauses: QueryItem[][];
+  pathFilters: string[];
+  folderFilters: string[];
+};
+
+type IndexedWord = {
+  term: string;
+  start: number;
+  end: number;
+};
+
+type CachedDoc = {
+  mtimeMs: number;
+  content: string;
+  words: IndexedWord[];
+  lineStarts: number[];
+};
+
+const PASSAGE_WINDOW = 240;
+const MAX_PASSAGES = 50;
+
+/**
+ * Parses a search query. Whitespace-separated items are ANDed, the `OR`
+ * keyword separates alternatives, `NOT` or a leading `-` negates the next
+ * item, double quotes make a phrase, and `path:` / `folder:` restrict which
+ * files are searched.
+ */
+export const parseQuery = (query: string): ParsedQuery => {
+  const tokens = query.match(/-?"[^"]*"?|\S+/g) ?? [];
+  const clauses: QueryItem[][] = [[]];
+  const pathFilters: string[] = [];
+  const folderFilters: string[] = [];
+  let negateNext = false;
+
+  for (const token of tokens) {
+    if (token === "OR") {
+      if (clauses[clauses.length - 1].length > 0) {
+        clauses.push([]);
+      }
+      continue;
+    }
+    if (token === "NOT") {
+      negateNext = true;
+      continue;
+    }
+    if (token === "AND") {
+      continue;
+    }
+    const filter = token.match(/^(path|folder):(.+)$/i);
+    if (filter) {
+      const value = filter[2].replace(/^"|"$/g, "").toLowerCase().replace(/^\/+|\/+$/g, "");
+      (filter[1].toLowerCase() === "path" ? pathFilters : folderFilters).push(value);
+      continue;
+    }
+
+    const negated = negateNext || (token.startsWith("-") && token.length > 1);
+    negateNext = false;
+    const raw = token.replace(/^-/, "");
+    const isPhrase = raw.startsWith("\"");
+    const words = (raw.replace(/"/g, "").match(/[\p{L}\p{N}]+/gu) ?? []).map(normalizeTerm);
+    if (isPhrase && words.length > 1) {
+      clauses[clauses.length - 1].push({ kind: "phrase", words, negated });
+      continue;
+    }
+    for (const word of words) {
+      if (!isStopword(word) || isPhrase) {
+        clauses[clauses.length - 1].push({ kind: "term", words: [word], negated });
+      }
+    }
+  }
+
+  return {
+    clauses: clauses.filter((clause) => clause.length > 0),
+    pathFilters,
+    folderFilters
+  };
+};
+
+const indexWords = (content: string): IndexedWord[] =>
+  Array.from(content.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    term: normalizeTerm(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+
+const findHits = (words: IndexedWord[], item: QueryItem): SearchHighlight[] => {
+  const hits: SearchHighlight[] = [];
+  for (let index = 0; index + item.words.length <= words.length; index += 1) {
+    if (item.words.every((word, offset) => words[index + offset].term === word)) {
+      hits.push({ start: words[index].start, end: words[index + item.words.length - 1].end });
+    }
+  }
+  return hits;
+};
+
+const lineOf = (lineStarts: number[], offset: number) => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+const mergeHighlights = (hits: SearchHighlight[]) =>
+  [...hits]
+    .sort((a, b) => a.start - b.start)
+    .reduce<SearchHighlight[]>((merged, hit) => {
+      const last = merged[merged.length - 1];
+      if (last && hit.start <= last.end) {
+        last.end = Math.max(last.end, hit.end);
+      } else {
+        merged.push({ ...hit });
+      }
+      return merged;
+    }, []);
+
+/** Groups hits by line and trims long lines to a window around their first hit. */
+const buildPassages = (doc: CachedDoc, hits: SearchHighlight[]): SearchPassage[] => {
+  const byLine = new Map<number, SearchHighlight[]>();
+  for (const hit of hits) {
+    const line = lineOf(doc.lineStarts, hit.start);
+    byLine.set(line, [...(byLine.get(line) ?? []), hit]);
+  }
+
+  return Array.from(byLine.entries())
+    .sort(([a], [b]) => a - b)
+    .slice(0, MAX_PASSAGES)
+    .map(([line, lineHits]) => {
+      const lineStart = doc.lineStarts[line];
+      const lineEnd = (doc.lineStarts[line + 1] ?? doc.content.length + 1) - 1;
+      const first = Math.min(...lineHits.map((hit) => hit.start));
+      const windowStart = Math.max(
+        lineStart,
+        Math.min(first - PASSAGE_WINDOW / 3, lineEnd - PASSAGE_WINDOW)
+      );
+      const windowEnd = Math.min(lineEnd, windowStart + PASSAGE_WINDOW);
+      return {
+        line: line + 1,
+        text: doc.content.slice(windowStart, windowEnd),
+        highlights: mergeHighlights(
+          lineHits.filter((hit) => hit.start >= windowStart && hit.end <= windowEnd)
+        ).map((hit) => ({ start: hit.start - windowStart, end: hit.end - windowStart }))
+      };
+    });
+};
+
+const matchesFilters = (filePath: string, parsed: ParsedQuery) => {
+  const lower = filePath.toLowerCase();
+  return (
+    parsed.pathFilters.every((filter) => lower.includes(filter)) &&
+    parsed.folderFilters.every((filter) => lower.startsWith(`${filter}/`))
+  );
+};
+
+/**
+ * Full-text search over markdown docs. Parsed documents are cached by
+ * modification time; ranking uses BM25 over the positive query terms.
+ */
+export const createSearchEngine = (resolvePath: (relativePath: string) => string) => {
+  const cache = new Map<string, CachedDoc>();
+
+  const loadDoc = async (relativePath: string) => {
+    const resolved = resolvePath(relativePath);
+    const stats = await fs.stat(resolved);
+    const cached = cache.get(relativePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs) {
+      return cached;
+    }
+    const content = await fs.readFile(resolved, "utf8");
+    const lineStarts = [0];
+    for (let index = 0; index < content.length; index += 1) {
+      if (content[index] === "\n") {
+        lineStarts.push(index + 1);
+      }
+    }
+    const doc = { mtimeMs: stats.mtimeMs, content, words: indexWords(content), lineStarts };
+    cache.set(relativePath, doc);
+    return doc;
+  };
+
+  const search = async (query: string, files: string[]): Promise<SearchResult[]> => {
+    const parsed = parseQuery(query);
+    for (const cachedPath of cache.keys()) {
+      if (!files.includes(cachedPath)) {
+        cache.delete(cachedPath);
+      }
+    }
+    const filtered = files.filter((candidate) => matchesFilters(candidate, parsed));
+    if (parsed.clauses.length === 0) {
+      if (parsed.pathFilters.length === 0 && parsed.folderFilters.length === 0) {
+        return [];
+      }
+      return Promise.all(
+        filtered.map(async (file) => ({
+          path: file,
+          score: 0,
+          snippet: (await loadDoc(file)).content.slice(0, 120).replace(/\s+/g, " ").trim(),
+          passages: []
+        }))
+      );
+    }
+
+    const matches: { path: string; doc: CachedDoc; hits: SearchHighlight[] }[] = [];
+    for (const file of filtered) {
+      const doc = await loadDoc(file);
+      const hits: SearchHighlight[] = [];
+      let matched = false;
+      for (const clause of parsed.clauses) {
+        const clauseHits = clause.map((item) => ({ item, hits: findHits(doc.words, item) }));
+        const satisfied = clauseHits.every(({ item, hits: itemHits }) =>
+          item.negated ? itemHits.length === 0 : itemHits.length > 0
+        );
+        if (satisfied) {
+          matched = true;
+          clauseHits
+            .filter(({ item }) => !item.negated)
+            .forEach(({ hits: itemHits }) => hits.push(...itemHits));
+        }
+      }
+      if (matched) {
+        matches.push({ path: file, doc, hits });
+      }
+    }
+
+    const positiveText = parsed.clauses
+      .flat()
+      .filter((item) => !item.negated)
+      .map((item) => item.words.join(" "))
+      .join(" ");
+    const index = createChunkIndex(
+      matches.map(({ path: docPath, doc }) => ({
+        id: docPath,
+        path: docPath,
+        heading: "",
+        startLine: 1,
+        endLine: doc.lineStarts.length,
+        text: doc.content,
+        tokens: tokenize(doc.content).length
+      }))
+    );
+    const scores = new Map(
+      index.search(positiveText).map(({ chunk, score }) => [chunk.path, score])
+    );
+
+    return matches
+      .map(({ path: docPath, doc, hits }) => {
+        const passages = buildPassages(doc, hits);
+        return {
+          path: docPath,
+          score: Math.round((scores.get(docPath) ?? 0) * 1000) / 1000,
+          snippet: passages[0]?.text.replace(/\s+/g, " ").trim() ?? doc.content.slice(0, 120),
+          passages
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.passages.length - a.passages.length ||
+          a.path.localeCompare(b.path)
+      );
+  };
+
+  return { search };
+};
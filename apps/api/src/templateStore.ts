@@ -0,0 +1,74 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { PlanTemplate } from "@mvp/worker";
+
+export type TemplateSummary = Omit<PlanTemplate, "plan"> & { stepCount: number };
+
+export type TemplateStore = ReturnType<typeof createTemplateStore>;
+
+/** Turns a template name into its id and file name, e.g. "Client Brief" -> "client-brief". */
+export const toTemplateId = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+
+export const summarizeTemplate = ({ plan, ...template }: PlanTemplate): TemplateSummary => ({
+  ...template,
+  stepCount: plan.steps.length
+});
+
+/** File-backed store with one `<id>.json` per template. */
+export const createTemplateStore = (templatesRoot: string) => {
+  const templatePath = (id: string) => {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error("Invalid template id.");
+    }
+    return path.join(templatesRoot, `${id}.json`);
+  };
+
+  const get = async (id: string): Promise<PlanTemplate | null> => {
+    try {
+      return JSON.parse(await fs.readFile(templatePath(id), "utf8")) as PlanTemplate;
+    } catch {
+      return null;
+    }
+  };
+
+  const list = async () => {
+    await fs.mkdir(templatesRoot, { recursive: true });
+    const entries = await fs.readdir(templatesRoot, { withFileTypes: true });
+    const templates = await Promise.all(
+      entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+        .map((entry) => get(path.basename(entry.name, ".json")))
+    );
+    return templates
+      .filter((template): template is PlanTemplate => template !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  const save = async (template: PlanTemplate) => {
+    const target = templatePath(template.id);
+    const temp = `${target}.tmp`;
+    await fs.mkdir(templatesRoot, { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(template, null, 2), "utf8");
+    await fs.rename(temp, target);
+    return template;
+  };
+
+  const remove = async (id: string) => {
+    const target = templatePath(id);
+    const exists = await fs
+      .access(target)
+      .then(() => true)
+      .catch(() => false);
+    if (exists) {
+      await fs.rm(target);
+    }
+    return exists;
+  };
+
+  return { list, get, save, remove };
+};
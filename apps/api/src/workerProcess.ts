@@ -0,0 +1,68 @@
+import { fork, type ChildProcess } from "node:child_process";
+import type { WorkerCommand, WorkerMessage } from "@mvp/worker";
+
+export type WorkerProcess = ReturnType<typeof createWorkerProcess>;
+
+const RESTART_DELAY_MS = 1000;
+
+/**
+ * Keeps one forked worker process running. Commands sent before it reports
+ * `ready` are held back. When it exits, `onExit` is called and a new process
+ * is started after a short delay.
+ */
+export const createWorkerProcess = ({
+  entry,
+  onMessage,
+  onExit
+}: {
+  entry: string;
+  onMessage: (message: WorkerMessage) => void;
+  onExit: (reason: string) => void;
+}) => {
+  let child: ChildProcess | null = null;
+  let ready = false;
+  let restarts = 0;
+  const pending: WorkerCommand[] = [];
+
+  const start = () => {
+    const current = fork(entry, [], { stdio: "inherit" });
+    child = current;
+    ready = false;
+    current.on("message", (message: WorkerMessage) => {
+      if (message.type === "ready") {
+        ready = true;
+        pending.splice(0).forEach((command) => current.send(command));
+      }
+      onMessage(message);
+    });
+    current.on("exit", (code, signal) => {
+      if (child !== current) {
+        return;
+      }
+      child = null;
+      ready = false;
+      pending.length = 0;
+      onExit(signal ? `signal ${signal}` : `code ${code}`);
+      restarts += 1;
+      setTimeout(start, RESTART_DELAY_MS);
+    });
+  };
+
+  const send = (command: WorkerCommand) => {
+    if (ready && child?.connected) {
+      child.send(command);
+    } else {
+      pending.push(command);
+    }
+  };
+
+  /** Stops the current process; the exit handler starts a new one. */
+  const restart = () => {
+    child?.kill();
+  };
+
+  const status = () => ({ pid: child?.pid ?? null, ready, restarts });
+
+  start();
+  return { send, restart, status };
+};
@@ -1,6 +1,15 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type FormEvent,
+  type ReactNode
+} from "react";
 import ReactMarkdown from "react-markdown";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL ?? "http://localhost:4000";
@@ -18,11 +27,16 @@ type PlanAgent = {
   role: string;
 };
 
+type StepFailurePolicy = "retry" | "skip" | "abort";
+
 type PlanStep = {
   id: string;
   title: string;
   description: string;
   agent: string;
+  dependsOn?: string[];
+  requiresApproval?: boolean;
+  onFailure?: StepFailurePolicy;
 };
 
 type RunPlan = {
@@ -33,11 +47,82 @@ type RunPlan = {
   questions: string[];
 };
 
+type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+type TokenBudget = {
+  run: number;
+  step: number;
+};
+
+type ChunkReference = {
+  id: string;
+  path: string;
+  heading: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+};
+
+type Citation = {
+  id: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+};
+
 type ArtifactResult = {
   outputPath: string;
   relativePath: string;
   previousContent: string;
   content: string;
+  citations?: Citation[];
+  merge?: { conflicts: number };
+};
+
+type DocVersion = {
+  id: number;
+  path: string;
+  author: string;
+  reason: string;
+  timestamp: string;
+  size: number;
+  deleted?: boolean;
+};
+
+type DiffSegment = {
+  text: string;
+  changed: boolean;
+};
+
+type DiffLine = {
+  type: "equal" | "added" | "removed";
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+  segments?: DiffSegment[];
+};
+
+type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+};
+
+type DocumentDiff = {
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+};
+
+type VersionDiff = DocumentDiff & {
+  from: DocVersion;
+  to: DocVersion;
 };
 
 type StepResult = {
@@ -45,24 +130,130 @@ type StepResult = {
   title: string;
   agent: string;
   output: string;
+  usage?: TokenUsage;
+  excerpts?: ChunkReference[];
+  review?: "approved" | "edited";
+  reused?: boolean;
+  attempts?: number;
+  skipped?: { kind: string; error: string };
+};
+
+type StepAttemptFailure = {
+  stepId: string;
+  title: string;
+  attempt: number;
+  kind: "transient" | "refusal" | "fatal";
+  error: string;
+  next: "retry" | "skip" | "abort";
+  retryInMs?: number;
+};
+
+type AgentArchetype = {
+  role: string;
+  description: string;
+  model?: string;
+  allowedOutputs: string[];
+  source: "built-in" | "workspace";
+};
+
+type TemplateSummary = {
+  id: string;
+  name: string;
+  description: string;
+  variables: string[];
+  stepCount: number;
+  updatedAt: string;
+};
+
+type PendingApproval = {
+  stepId: string;
+  title: string;
+  agent: string;
+  output: string;
+};
+
+type Clarification = {
+  id: string;
+  question: string;
+  answer: string;
+  stepId?: string;
+};
+
+type PendingQuestion = {
+  id: string;
+  stepId: string;
+  question: string;
 };
 
 type RunResult = {
   artifacts: ArtifactResult[];
   steps: StepResult[];
   sources: string[];
+  citations?: Citation[];
   outputs: string[];
   mainArtifact: string;
   plan: RunPlan;
+  usage?: TokenUsage;
+};
+
+type RunStatus = "queued" | "running" | "done" | "error" | "cancelled";
+
+type RunPriority = "low" | "normal" | "high";
+
+type RunSummary = {
+  id: string;
+  status: RunStatus;
+  prompt: string;
+  interpretedGoal: string;
+  createdAt: string;
+  finishedAt?: string;
+  durationMs: number | null;
+  stepCount: number;
+  artifactCount: number;
+  createdBy?: string;
+};
+
+type RunDetail = {
+  id: string;
+  status: RunStatus;
+  prompt: string;
+  plan: RunPlan;
+  clarifications: Clarification[];
+  steps: StepResult[];
+  artifacts: ArtifactResult[];
+  result?: RunResult;
+  usage?: TokenUsage;
+  error?: string;
+};
+
+type SearchHighlight = {
+  start: number;
+  end: number;
+};
+
+type SearchPassage = {
+  line: number;
+  text: string;
+  highlights: SearchHighlight[];
 };
 
 type SearchResult = {
   path: string;
+  score: number;
   snippet: string;
+  passages: SearchPassage[];
+};
+
+type RunWarning = {
+  code: string;
+  message: string;
+  issues?: { path: string; message: string }[];
+  path?: string;
 };
 
 type PlanResponse = {
   plan: RunPlan;
+  warnings: RunWarning[];
 };
 
 type RunEventPayload = {
@@ -71,16 +262,78 @@ type RunEventPayload = {
   agent?: string;
   path?: string;
   message?: string;
+  usage?: TokenUsage;
+  runUsage?: TokenUsage;
+  tokenBudget?: TokenBudget;
+  excerpts?: ChunkReference[];
+  output?: string;
+  action?: string;
+  reason?: string;
+  attempt?: number;
+  delta?: string;
+  priority?: RunPriority;
+};
+
+type UserRole = "viewer" | "editor" | "run-launcher" | "admin";
+
+type SessionUser = {
+  id: string;
+  username: string;
+  roles: UserRole[];
+};
+
+type Notebook = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt?: string;
+};
+
+type SessionResponse = {
+  user: SessionUser | null;
+  setupRequired: boolean;
+};
+
+type LiveNotes = {
+  attempt: number;
+  text: string;
 };
 
 const fetchJson = async <T,>(url: string, options?: RequestInit): Promise<T> => {
-  const response = await fetch(url, options);
+  const response = await fetch(url, { ...options, credentials: "include" });
   if (!response.ok) {
-    throw new Error(`Request failed: ${response.status}`);
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error ?? `Request failed: ${response.status}`);
   }
   return (await response.json()) as T;
 };
 
+const fetchRunDetail = (notebookApi: string, runId: string) =>
+  fetchJson<{ run: RunDetail }>(`${notebookApi}/runs/${runId}`).then((data) => data.run);
+
+/** Lowest to highest, as on the API; each role includes the ones before it. */
+const USER_ROLES: UserRole[] = ["viewer", "editor", "run-launcher", "admin"];
+
+/** A user holds `role` when any of their roles ranks at or above it, as on the API. */
+const hasRole = (user: SessionUser, role: UserRole) =>
+  user.roles.some((held) => USER_ROLES.indexOf(held) >= USER_ROLES.indexOf(role));
+
+const IMPORT_ACCEPT = ".pdf,.docx,.html,.htm,.csv";
+const BUNDLE_EXPORTS = [
+  { format: "zip", label: "ZIP" },
+  { format: "html", label: "HTML" },
+  { format: "docx", label: "Word" }
+];
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/** Splits off the provenance frontmatter of imported docs, returning the original file name. */
+const splitFrontmatter = (content: string) => {
+  const match = FRONTMATTER_PATTERN.exec(content);
+  const source = match?.[1].match(/^source:\s*(.+)$/m)?.[1].trim() ?? null;
+  return { body: match ? content.slice(match[0].length) : content, source };
+};
+
 const formatDocTitle = (file: string) => {
   const clean = file.replace(/\.md$/i, "");
   return (
@@ -100,40 +353,205 @@ const normalizeDocName = (value: string) => {
   return trimmed.endsWith(".md") ? trimmed : `${trimmed}.md`;
 };
 
-const getDiffLines = (previous: string, next: string) => {
-  const previousLines = previous.split("\n");
-  const nextLines = next.split("\n");
-  const max = Math.max(previousLines.length, nextLines.length);
-  const changes: { type: "added" | "removed"; text: string }[] = [];
+const MAX_VISIBLE_PASSAGES = 3;
 
-  for (let index = 0; index < max; index += 1) {
-    const before = previousLines[index];
-    const after = nextLines[index];
-    if (before === after) {
-      continue;
-    }
-    if (before !== undefined && before !== "") {
-      changes.push({ type: "removed", text: before });
-    }
-    if (after !== undefined && after !== "") {
-      changes.push({ type: "added", text: after });
+const renderHighlighted = (text: string, highlights: SearchHighlight[]) => {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach((highlight, index) => {
+    if (highlight.start > cursor) {
+      parts.push(text.slice(cursor, highlight.start));
     }
+    parts.push(<mark key={index}>{text.slice(highlight.start, highlight.end)}</mark>);
+    cursor = highlight.end;
+  });
+  parts.push(text.slice(cursor));
+  return parts;
+};
+
+const formatTokens = (value: number) =>
+  value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+const formatUsage = (usage: TokenUsage) =>
+  [
+    `${formatTokens(usage.inputTokens)} in`,
+    `${formatTokens(usage.outputTokens)} out`,
+    `$${usage.costUsd.toFixed(2)}`
+  ].join(" · ");
+
+const CITATION_MARKER = /\[\[([^\]#\n]+?\.md)#L(\d+)-L(\d+)\]\]/g;
+const CITATION_HREF = "#cite=";
+
+/** Turns `[[path.md#L3-L5]]` markers into links the markdown renderer can intercept. */
+const linkCitations = (markdown: string) =>
+  markdown.replace(CITATION_MARKER, (_marker, path: string, start: string, end: string) => {
+    const target = encodeURIComponent(`${path}#L${start}-L${end}`);
+    return `[${path} L${start}-${end}](${CITATION_HREF}${target})`;
+  });
+
+const parseCitationHref = (href: string): Citation | null => {
+  const match = decodeURIComponent(href.slice(CITATION_HREF.length)).match(
+    /^(.+\.md)#L(\d+)-L(\d+)$/
+  );
+  if (!match) {
+    return null;
   }
+  return {
+    id: `${match[1]}#L${match[2]}-L${match[3]}`,
+    path: match[1],
+    startLine: Number(match[2]),
+    endLine: Number(match[3])
+  };
+};
+
+const planQuestionId = (index: number) => `q-${index + 1}`;
+
+const findAnswer = (clarifications: Clarification[], id: string) =>
+  clarifications.find((clarification) => clarification.id === id)?.answer ?? "";
+
+const formatWarningIssues = (warning: RunWarning) =>
+  (warning.issues ?? []).map((issue) => `${issue.path || "(root)"}: ${issue.message}`).join("\n");
+
+const formatRunTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+const toRunResult = (run: RunDetail): RunResult =>
+  run.result ?? {
+    artifacts: run.artifacts,
+    steps: run.steps,
+    sources: [],
+    outputs: run.plan.outputs,
+    mainArtifact: run.artifacts[0]?.relativePath ?? "",
+    plan: run.plan
+  };
+
+const DIFF_MARKERS = { equal: " ", added: "+", removed: "-" };
+
+const DiffView = ({ diff }: { diff: DocumentDiff }) =>
+  diff.hunks.length === 0 ? (
+    <p>No line changes detected.</p>
+  ) : (
+    <ul className="diff">
+      {diff.hunks.map((hunk) => [
+        <li key={`hunk-${hunk.oldStart}-${hunk.newStart}`} className="diff-hunk">
+          @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+        </li>,
+        ...hunk.lines.map((line) => (
+          <li
+            key={`${hunk.oldStart}-${line.type}-${line.oldLine ?? ""}-${line.newLine ?? ""}`}
+            className={`diff-${line.type}`}
+          >
+            <span>{DIFF_MARKERS[line.type]}</span>
+            <code>
+              {line.segments
+                ? line.segments.map((segment, index) =>
+                    segment.changed ? <mark key={index}>{segment.text}</mark> : segment.text
+                  )
+                : line.text}
+            </code>
+          </li>
+        ))
+      ])}
+    </ul>
+  );
 
-  return changes;
+const SignInPanel = ({
+  setupRequired,
+  onSignedIn
+}: {
+  setupRequired: boolean;
+  onSignedIn: (user: SessionUser) => void;
+}) => {
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+    try {
+      const { user } = await fetchJson<{ user: SessionUser }>(
+        `${API_BASE_URL}/api/auth/${setupRequired ? "setup" : "login"}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ username, password })
+        }
+      );
+      onSignedIn(user);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Failed to sign in");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="sign-in">
+      <form className="panel sign-in-panel" onSubmit={handleSubmit}>
+        <p className="eyebrow">Workspace</p>
+        <h1>{setupRequired ? "Create the admin account" : "Sign in"}</h1>
+        {setupRequired ? (
+          <p className="subtext">No accounts exist yet. This first account can add the others.</p>
+        ) : null}
+        <label>
+          <span>Username</span>
+          <input
+            value={username}
+            autoComplete="username"
+            onChange={(event) => setUsername(event.target.value)}
+          />
+        </label>
+        <label>
+          <span>Password</span>
+          <input
+            type="password"
+            value={password}
+            autoComplete={setupRequired ? "new-password" : "current-password"}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+        </label>
+        {error ? <span className="status-error">{error}</span> : null}
+        <button type="submit" disabled={isSubmitting || !username.trim() || !password}>
+          {setupRequired ? "Create account" : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
 };
 
-const HomePage = () => {
+const DEFAULT_NOTEBOOK_ID = "default";
+
+type WorkspaceProps = {
+  user: SessionUser;
+  notebookId: string;
+  onNotebookChange: (notebookId: string) => void;
+  onSignOut: () => void;
+};
+
+const Workspace = ({ user, notebookId, onNotebookChange, onSignOut }: WorkspaceProps) => {
+  const notebookApi = `${API_BASE_URL}/api/notebooks/${encodeURIComponent(notebookId)}`;
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const currentNotebook = notebooks.find((notebook) => notebook.id === notebookId);
+  const isArchived = Boolean(currentNotebook?.archivedAt);
+  const canEdit = hasRole(user, "editor") && !isArchived;
+  const canRun = hasRole(user, "run-launcher") && !isArchived;
+  const canManageNotebooks = hasRole(user, "editor");
   const [files, setFiles] = useState<string[]>([]);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [content, setContent] = useState<string>("");
+  const [contentEtag, setContentEtag] = useState<string>("");
   const [prompt, setPrompt] = useState<string>(
     "Draft a customer brief based on the workspace documents."
   );
   const [planStatus, setPlanStatus] = useState<string>("Idle");
   const [planError, setPlanError] = useState<string>("");
+  const [planWarnings, setPlanWarnings] = useState<RunWarning[]>([]);
+  const [runWarnings, setRunWarnings] = useState<RunWarning[]>([]);
   const [plan, setPlan] = useState<RunPlan | null>(null);
-  const [clarifications, setClarifications] = useState<string>("");
+  const [clarifications, setClarifications] = useState<Clarification[]>([]);
   const [logs, setLogs] = useState<RunLog[]>([]);
   const [runStatus, setRunStatus] = useState<string>("Idle");
   const [runResult, setRunResult] = useState<RunResult | null>(null);
@@ -143,9 +561,52 @@ const HomePage = () => {
   const [activeRunId, setActiveRunId] = useState<string | null>(null);
   const [refinePrompt, setRefinePrompt] = useState<string>("");
   const [rerunStep, setRerunStep] = useState<string>("");
+  const [runHistory, setRunHistory] = useState<RunSummary[]>([]);
+  const [historyQuery, setHistoryQuery] = useState<string>("");
+  const [historyStatus, setHistoryStatus] = useState<string>("");
+  const [openedRunId, setOpenedRunId] = useState<string | null>(null);
+  const [runUsage, setRunUsage] = useState<TokenUsage | null>(null);
+  const [tokenBudget, setTokenBudget] = useState<TokenBudget | null>(null);
+  const [stepUsage, setStepUsage] = useState<Record<string, TokenUsage>>({});
+  const [stepExcerpts, setStepExcerpts] = useState<Record<string, ChunkReference[]>>({});
+  const [citedPassage, setCitedPassage] = useState<Citation | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([]);
+  const [approvalDrafts, setApprovalDrafts] = useState<Record<string, string>>({});
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [archetypes, setArchetypes] = useState<AgentArchetype[]>([]);
+  const [runPriority, setRunPriority] = useState<RunPriority>("normal");
+  const [liveNotes, setLiveNotes] = useState<Record<string, LiveNotes>>({});
+  const [stepFailures, setStepFailures] = useState<Record<string, StepAttemptFailure[]>>({});
+  const [pendingQuestions, setPendingQuestions] = useState<PendingQuestion[]>([]);
+  const [questionDrafts, setQuestionDrafts] = useState<Record<string, string>>({});
+  const [docVersions, setDocVersions] = useState<DocVersion[]>([]);
+  const [versionDiff, setVersionDiff] = useState<VersionDiff | null>(null);
+  const [artifactDiffs, setArtifactDiffs] = useState<Record<string, DocumentDiff>>({});
+
+  const selectedTemplate = useMemo(
+    () => templates.find((template) => template.id === selectedTemplateId) ?? null,
+    [templates, selectedTemplateId]
+  );
 
   const selectedLabel = useMemo(() => selectedFile ?? "No document selected", [selectedFile]);
 
+  const openCitation = useCallback((citation: Citation) => {
+    setCitedPassage(citation);
+    setSelectedFile(citation.path);
+  }, []);
+
+  const citedLines = useMemo(() => {
+    if (!citedPassage || citedPassage.path !== selectedFile) {
+      return [];
+    }
+    return content.split("\n").slice(citedPassage.startLine - 1, citedPassage.endLine);
+  }, [citedPassage, content, selectedFile]);
+
+  const renderedDoc = useMemo(() => splitFrontmatter(content), [content]);
+  const importInput = useRef<HTMLInputElement>(null);
+
   const planSteps = plan?.steps ?? [];
   const planOutputs = plan?.outputs ?? [];
   const planAgents = plan?.agents ?? [];
@@ -170,18 +631,40 @@ const HomePage = () => {
     return status;
   }, [logs, planSteps]);
 
-  const artifactsWithDiff = useMemo(() => {
+  useEffect(() => {
+    setArtifactDiffs({});
     if (!runResult) {
-      return [];
+      return;
     }
-    return runResult.artifacts.map((artifact) => ({
-      ...artifact,
-      diff: getDiffLines(artifact.previousContent ?? "", artifact.content ?? "")
-    }));
+    let cancelled = false;
+    Promise.all(
+      runResult.artifacts.map(async (artifact) => {
+        const diff = await fetchJson<DocumentDiff>(`${API_BASE_URL}/api/diff`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            previous: artifact.previousContent ?? "",
+            next: artifact.content ?? ""
+          })
+        });
+        return [artifact.relativePath, diff] as const;
+      })
+    )
+      .then((entries) => {
+        if (!cancelled) {
+          setArtifactDiffs(Object.fromEntries(entries));
+        }
+      })
+      .catch((error) => {
+        setLogs((prev) => [...prev, { event: "error", message: error.message }]);
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [runResult]);
 
   const loadFiles = useCallback(() => {
-    fetchJson<{ files: string[] }>(`${API_BASE_URL}/api/files`)
+    fetchJson<{ files: string[] }>(`${notebookApi}/files`)
       .then((data) => {
         setFiles(data.files);
         if (data.files.length > 0 && (!selectedFile || !data.files.includes(selectedFile))) {
@@ -191,20 +674,112 @@ const HomePage = () => {
       .catch((error) => {
         setLogs((prev) => [...prev, { event: "error", message: error.message }]);
       });
-  }, [selectedFile]);
+  }, [notebookApi, selectedFile]);
 
   const loadFileContent = useCallback((filePath: string) => {
-    fetchJson<{ content: string }>(`${API_BASE_URL}/api/file?path=${encodeURIComponent(filePath)}`)
-      .then((data) => setContent(data.content))
+    fetchJson<{ content: string; etag: string }>(
+      `${notebookApi}/file?path=${encodeURIComponent(filePath)}`
+    )
+      .then((data) => {
+        setContent(data.content);
+        setContentEtag(data.etag);
+      })
       .catch((error) => {
         setLogs((prev) => [...prev, { event: "error", message: error.message }]);
       });
-  }, []);
+    fetchJson<{ versions: DocVersion[] }>(
+      `${notebookApi}/file/versions?path=${encodeURIComponent(filePath)}`
+    )
+      .then((data) => setDocVersions(data.versions.slice().reverse()))
+      .catch(() => setDocVersions([]));
+    setVersionDiff(null);
+  }, [notebookApi]);
+
+  const loadRunHistory = useCallback(() => {
+    const params = new URLSearchParams();
+    if (historyQuery.trim()) {
+      params.set("q", historyQuery.trim());
+    }
+    if (historyStatus) {
+      params.set("status", historyStatus);
+    }
+    fetchJson<{ runs: RunSummary[] }>(`${notebookApi}/runs?${params.toString()}`)
+      .then((data) => setRunHistory(data.runs))
+      .catch((error) => {
+        setLogs((prev) => [...prev, { event: "error", message: error.message }]);
+      });
+  }, [notebookApi, historyQuery, historyStatus]);
+
+  const openRun = useCallback(async (runId: string) => {
+    try {
+      const run = await fetchRunDetail(notebookApi, runId);
+      const result = toRunResult(run);
+      setOpenedRunId(run.id);
+      setPrompt(run.prompt);
+      setPlan(run.plan);
+      setClarifications(run.clarifications);
+      setRunResult(result);
+      setRunUsage(run.usage ?? result.usage ?? null);
+      setStepUsage(
+        Object.fromEntries(
+          result.steps.flatMap((step) => (step.usage ? [[step.stepId, step.usage]] : []))
+        )
+      );
+      setStepExcerpts(
+        Object.fromEntries(
+          result.steps.flatMap((step) => (step.excerpts ? [[step.stepId, step.excerpts]] : []))
+        )
+      );
+      setRunStatus(run.status === "error" ? `Error: ${run.error ?? "Run failed"}` : run.status);
+      setPlanStatus("Plan loaded from history");
+      setPlanError("");
+      setPlanWarnings([]);
+      if (result.mainArtifact) {
+        setSelectedFile(result.mainArtifact);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to open run";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+    }
+  }, [notebookApi]);
 
   useEffect(() => {
     loadFiles();
   }, [loadFiles]);
 
+  const loadTemplates = useCallback(() => {
+    fetchJson<{ templates: TemplateSummary[] }>(`${API_BASE_URL}/api/templates`)
+      .then((data) => setTemplates(data.templates))
+      .catch((error) => {
+        setLogs((prev) => [...prev, { event: "error", message: error.message }]);
+      });
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    fetchJson<{ agents: AgentArchetype[] }>(`${notebookApi}/agents`)
+      .then((data) => setArchetypes(data.agents))
+      .catch(() => setArchetypes([]));
+  }, [notebookApi]);
+
+  useEffect(() => {
+    const handle = setTimeout(loadRunHistory, 250);
+    return () => clearTimeout(handle);
+  }, [loadRunHistory]);
+
+  useEffect(() => {
+    fetchJson<{ runs: RunSummary[] }>(`${notebookApi}/runs?status=done`)
+      .then((data) => {
+        if (data.runs[0]) {
+          void openRun(data.runs[0].id);
+        }
+      })
+      .catch(() => undefined);
+  }, [notebookApi, openRun]);
+
   useEffect(() => {
     if (!selectedFile) {
       return;
@@ -219,7 +794,7 @@ const HomePage = () => {
     }
     const handle = setTimeout(() => {
       fetchJson<{ results: SearchResult[] }>(
-        `${API_BASE_URL}/api/search?query=${encodeURIComponent(searchQuery)}`
+        `${notebookApi}/search?query=${encodeURIComponent(searchQuery)}`
       )
         .then((data) => setSearchResults(data.results))
         .catch((error) => {
@@ -227,19 +802,21 @@ const HomePage = () => {
         });
     }, 250);
     return () => clearTimeout(handle);
-  }, [searchQuery]);
+  }, [notebookApi, searchQuery]);
 
   const generatePlan = async () => {
     try {
       setPlanStatus("Planning...");
       setPlanError("");
-      const data = await fetchJson<PlanResponse>(`${API_BASE_URL}/api/plan`, {
+      setPlanWarnings([]);
+      const data = await fetchJson<PlanResponse>(`${notebookApi}/plan`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ prompt })
       });
       setPlan(data.plan);
-      setClarifications("");
+      setPlanWarnings(data.warnings ?? []);
+      setClarifications([]);
       setPlanStatus("Plan ready");
     } catch (error) {
       const message = error instanceof Error ? error.message : "Failed to plan";
@@ -248,35 +825,249 @@ const HomePage = () => {
     }
   };
 
-  const runPlan = async (options?: { mode?: "refine"; startingStepIndex?: number }) => {
-    if (!plan) {
+  const prepareRunView = () => {
+    setLogs([]);
+    setRunResult(null);
+    setRunUsage(null);
+    setStepUsage({});
+    setStepExcerpts({});
+    setPendingApprovals([]);
+    setApprovalDrafts({});
+    setPendingQuestions([]);
+    setQuestionDrafts({});
+    setLiveNotes({});
+    setStepFailures({});
+    setRunWarnings([]);
+    setIsRunning(true);
+    setRunStatus("Starting...");
+    setPlanError("");
+  };
+
+  /** Opens the run's event stream and mirrors it into the timeline, logs and results. */
+  const followRun = (runId: string) => {
+    setActiveRunId(runId);
+    setOpenedRunId(runId);
+    loadRunHistory();
+    const eventSource = new EventSource(`${notebookApi}/run/${runId}/events`, {
+      withCredentials: true
+    });
+
+    const handleLog = (event: string, message: string) => {
+      setLogs((prev) => [...prev, { event, message }]);
+    };
+
+    eventSource.addEventListener("queued", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      const message = `Queued with ${data.priority ?? "normal"} priority`;
+      setRunStatus(message);
+      handleLog("queued", message);
+    });
+
+    eventSource.addEventListener("started", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      setRunStatus(data.message ?? "Started");
+      setTokenBudget(data.tokenBudget ?? null);
+      handleLog("started", data.message ?? "Started");
+    });
+
+    eventSource.addEventListener("planning", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      setRunStatus(data.message ?? "Planning");
+      handleLog("planning", data.message ?? "Planning");
+    });
+
+    eventSource.addEventListener("step_started", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      const logMessage = `${data.stepId ?? ""}|${data.agent ?? ""}|${data.title ?? ""}`;
+      setRunStatus(`${data.agent ?? "Agent"} working on ${data.title ?? "step"}`);
+      if (data.stepId && data.excerpts) {
+        const { stepId, excerpts } = data;
+        setStepExcerpts((prev) => ({ ...prev, [stepId]: excerpts }));
+      }
+      handleLog("step_started", logMessage);
+    });
+
+    eventSource.addEventListener("step_delta", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      const { stepId, attempt = 0, delta = "" } = data;
+      if (!stepId) {
+        return;
+      }
+      setLiveNotes((prev) => {
+        const current = prev[stepId];
+        const text = current && current.attempt === attempt ? current.text + delta : delta;
+        return { ...prev, [stepId]: { attempt, text } };
+      });
+    });
+
+    eventSource.addEventListener("awaiting_approval", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as PendingApproval;
+      setRunStatus(`Waiting for approval of ${data.title}`);
+      setPendingApprovals((prev) => [
+        ...prev.filter((pending) => pending.stepId !== data.stepId),
+        data
+      ]);
+      setApprovalDrafts((prev) => ({ ...prev, [data.stepId]: data.output }));
+      handleLog("awaiting_approval", `${data.stepId}|${data.agent}|${data.title}`);
+    });
+
+    eventSource.addEventListener("step_reviewed", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      setPendingApprovals((prev) => prev.filter((pending) => pending.stepId !== data.stepId));
+      handleLog("step_reviewed", `${data.stepId ?? ""}: ${data.action ?? "reviewed"}`);
+    });
+
+    eventSource.addEventListener("question", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as PendingQuestion;
+      setRunStatus(`Waiting for an answer: ${data.question}`);
+      setPendingQuestions((prev) => [...prev.filter((pending) => pending.id !== data.id), data]);
+      handleLog("question", `${data.stepId}: ${data.question}`);
+    });
+
+    eventSource.addEventListener("answered", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as Clarification;
+      setPendingQuestions((prev) => prev.filter((pending) => pending.id !== data.id));
+      setClarifications((prev) => [...prev.filter((item) => item.id !== data.id), data]);
+      handleLog("answered", `${data.stepId ?? ""}: ${data.answer}`);
+    });
+
+    eventSource.addEventListener("step_failed", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as StepAttemptFailure;
+      setStepFailures((prev) => ({
+        ...prev,
+        [data.stepId]: [...(prev[data.stepId] ?? []), data]
+      }));
+      handleLog(
+        "step_failed",
+        `${data.title}: attempt ${data.attempt} failed (${data.kind}), next: ${data.next}`
+      );
+    });
+
+    eventSource.addEventListener("step_completed", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      const logMessage = `${data.stepId ?? ""}|${data.agent ?? ""}|${data.title ?? ""}`;
+      if (data.runUsage) {
+        setRunUsage(data.runUsage);
+      }
+      if (data.stepId && data.usage) {
+        const { stepId, usage } = data;
+        setStepUsage((prev) => ({ ...prev, [stepId]: usage }));
+      }
+      handleLog("step_completed", logMessage);
+    });
+
+    eventSource.addEventListener("warning", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunWarning;
+      setRunWarnings((prev) => [...prev, data]);
+      handleLog("warning", data.message);
+    });
+
+    eventSource.addEventListener("artifact_written", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      const message = data.path ? `Wrote ${data.path}` : "Wrote artifact";
+      setRunStatus(message);
+      handleLog("artifact_written", message);
+    });
+
+    eventSource.addEventListener("done", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunResult & { message: string };
+      setRunStatus(data.message ?? "Done");
+      handleLog("done", data.message ?? "Done");
+      eventSource.close();
+      setRunResult(data);
+      if (data.usage) {
+        setRunUsage(data.usage);
+      }
+      setIsRunning(false);
+      setActiveRunId(null);
+      loadRunHistory();
+      if (data.mainArtifact) {
+        setSelectedFile(data.mainArtifact);
+        const mainArtifact = data.artifacts.find(
+          (artifact) => artifact.relativePath === data.mainArtifact
+        );
+        if (mainArtifact) {
+          setContent(mainArtifact.content);
+        }
+      }
+      loadFiles();
+    });
+
+    eventSource.addEventListener("cancelled", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
+      setRunStatus(data.message ?? "Cancelled");
+      handleLog("cancelled", data.message ?? "Cancelled");
+      eventSource.close();
+      setIsRunning(false);
+      setActiveRunId(null);
+      loadRunHistory();
+    });
+
+    eventSource.addEventListener("error", (event) => {
+      let message = "SSE connection error.";
+      if (event instanceof MessageEvent && event.data) {
+        try {
+          const data = JSON.parse(event.data) as { message?: string };
+          if (data.message) {
+            message = data.message;
+          }
+        } catch {
+          message = event.data;
+        }
+      }
+      setRunStatus("Error");
+      handleLog("error", message);
+      eventSource.close();
+      setIsRunning(false);
+      setActiveRunId(null);
+      loadRunHistory();
+    });
+  };
+
+  const runPlan = async (options?: {
+    mode?: "refine";
+    startingStepIndex?: number;
+    /** Earlier run whose unchanged step results are reused. */
+    sourceRunId?: string;
+    plan?: RunPlan;
+    prompt?: string;
+    clarifications?: Clarification[];
+  }) => {
+    const runSourcePlan = options?.plan ?? plan;
+    const runClarifications = options?.clarifications ?? clarifications;
+    if (!runSourcePlan) {
       return;
     }
-    if (plan.questions.length > 0 && !clarifications.trim()) {
-      setPlanError("Please answer the clarifying questions before running.");
+    const answeredClarifications = runClarifications.filter((clarification) =>
+      clarification.answer.trim()
+    );
+    const unanswered = runSourcePlan.questions.filter(
+      (_question, index) => !findAnswer(answeredClarifications, planQuestionId(index)).trim()
+    );
+    const hasLegacyNotes = answeredClarifications.some((clarification) => !clarification.question);
+    if (unanswered.length > 0 && !hasLegacyNotes) {
+      setPlanError(`Please answer every clarifying question (${unanswered.length} left).`);
       return;
     }
 
     const runPrompt =
       options?.mode === "refine" && refinePrompt.trim()
         ? refinePrompt.trim()
-        : prompt;
+        : options?.prompt ?? prompt;
 
     try {
-      setLogs([]);
-      setRunResult(null);
-      setIsRunning(true);
-      setRunStatus("Starting...");
-      setPlanError("");
+      prepareRunView();
 
-      const { runId } = await fetchJson<{ runId: string }>(`${API_BASE_URL}/api/run`, {
+      const { runId } = await fetchJson<{ runId: string }>(`${notebookApi}/run`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           prompt: runPrompt,
-          plan,
-          clarifications: clarifications.trim(),
+          plan: runSourcePlan,
+          clarifications: answeredClarifications,
           startingStepIndex: options?.startingStepIndex ?? 0,
+          sourceRunId: options?.sourceRunId,
+          priority: runPriority,
           priorArtifacts:
             options?.mode === "refine"
               ? runResult?.artifacts.map((artifact) => ({
@@ -287,98 +1078,67 @@ const HomePage = () => {
         })
       });
 
-      setActiveRunId(runId);
-      const eventSource = new EventSource(`${API_BASE_URL}/api/run/${runId}/events`);
-
-      const handleLog = (event: string, message: string) => {
-        setLogs((prev) => [...prev, { event, message }]);
-      };
-
-      eventSource.addEventListener("started", (event) => {
-        const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
-        setRunStatus(data.message ?? "Started");
-        handleLog("started", data.message ?? "Started");
-      });
-
-      eventSource.addEventListener("planning", (event) => {
-        const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
-        setRunStatus(data.message ?? "Planning");
-        handleLog("planning", data.message ?? "Planning");
-      });
-
-      eventSource.addEventListener("step_started", (event) => {
-        const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
-        const logMessage = `${data.stepId ?? ""}|${data.agent ?? ""}|${data.title ?? ""}`;
-        setRunStatus(`${data.agent ?? "Agent"} working on ${data.title ?? "step"}`);
-        handleLog("step_started", logMessage);
-      });
+      followRun(runId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to run";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+      setRunStatus("Error");
+      setIsRunning(false);
+      setActiveRunId(null);
+    }
+  };
 
-      eventSource.addEventListener("step_completed", (event) => {
-        const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
-        const logMessage = `${data.stepId ?? ""}|${data.agent ?? ""}|${data.title ?? ""}`;
-        handleLog("step_completed", logMessage);
+  const loadNotebooks = useCallback(() => {
+    fetchJson<{ notebooks: Notebook[] }>(`${API_BASE_URL}/api/notebooks?archived=true`)
+      .then((data) => setNotebooks(data.notebooks))
+      .catch((error) => {
+        setLogs((prev) => [...prev, { event: "error", message: error.message }]);
       });
+  }, []);
 
-      eventSource.addEventListener("artifact_written", (event) => {
-        const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
-        const message = data.path ? `Wrote ${data.path}` : "Wrote artifact";
-        setRunStatus(message);
-        handleLog("artifact_written", message);
-      });
+  useEffect(() => {
+    loadNotebooks();
+  }, [loadNotebooks]);
 
-      eventSource.addEventListener("done", (event) => {
-        const data = JSON.parse((event as MessageEvent).data) as RunResult & { message: string };
-        setRunStatus(data.message ?? "Done");
-        handleLog("done", data.message ?? "Done");
-        eventSource.close();
-        setRunResult(data);
-        setIsRunning(false);
-        setActiveRunId(null);
-        if (data.mainArtifact) {
-          setSelectedFile(data.mainArtifact);
-          const mainArtifact = data.artifacts.find(
-            (artifact) => artifact.relativePath === data.mainArtifact
-          );
-          if (mainArtifact) {
-            setContent(mainArtifact.content);
-          }
+  const handleCreateNotebook = async () => {
+    const name = window.prompt("Name your new notebook")?.trim();
+    if (!name) {
+      return;
+    }
+    try {
+      const { notebook } = await fetchJson<{ notebook: Notebook }>(
+        `${API_BASE_URL}/api/notebooks`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name })
         }
-        loadFiles();
-      });
-
-      eventSource.addEventListener("cancelled", (event) => {
-        const data = JSON.parse((event as MessageEvent).data) as RunEventPayload;
-        setRunStatus(data.message ?? "Cancelled");
-        handleLog("cancelled", data.message ?? "Cancelled");
-        eventSource.close();
-        setIsRunning(false);
-        setActiveRunId(null);
-      });
+      );
+      onNotebookChange(notebook.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to create notebook";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+    }
+  };
 
-      eventSource.addEventListener("error", (event) => {
-        let message = "SSE connection error.";
-        if (event instanceof MessageEvent && event.data) {
-          try {
-            const data = JSON.parse(event.data) as { message?: string };
-            if (data.message) {
-              message = data.message;
-            }
-          } catch {
-            message = event.data;
-          }
-        }
-        setRunStatus("Error");
-        handleLog("error", message);
-        eventSource.close();
-        setIsRunning(false);
-        setActiveRunId(null);
+  const updateNotebook = async (patch: { name?: string; archived?: boolean }) => {
+    try {
+      await fetchJson(`${API_BASE_URL}/api/notebooks/${encodeURIComponent(notebookId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch)
       });
+      loadNotebooks();
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to run";
+      const message = error instanceof Error ? error.message : "Failed to update notebook";
       setLogs((prev) => [...prev, { event: "error", message }]);
-      setRunStatus("Error");
-      setIsRunning(false);
-      setActiveRunId(null);
+    }
+  };
+
+  const handleRenameNotebook = () => {
+    const name = window.prompt("Rename notebook", currentNotebook?.name)?.trim();
+    if (name && name !== currentNotebook?.name) {
+      void updateNotebook({ name });
     }
   };
 
@@ -389,15 +1149,42 @@ const HomePage = () => {
       return;
     }
     try {
-      await fetchJson(`${API_BASE_URL}/api/file`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ path: normalized, content: `# ${formatDocTitle(normalized)}\n` })
-      });
+      await fetchJson(`${notebookApi}/file`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "If-None-Match": "*" },
+        body: JSON.stringify({ path: normalized, content: `# ${formatDocTitle(normalized)}\n` })
+      });
+      loadFiles();
+      setSelectedFile(normalized);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to create document";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+    }
+  };
+
+  const handleImportDoc = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      const imported = await fetchJson<{ path: string; warnings: string[] }>(
+        `${notebookApi}/import?name=${encodeURIComponent(file.name)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": file.type || "application/octet-stream" },
+          body: file
+        }
+      );
+      setLogs((prev) => [
+        ...prev,
+        ...imported.warnings.map((message) => ({ event: "warning", message }))
+      ]);
       loadFiles();
-      setSelectedFile(normalized);
+      setSelectedFile(imported.path);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Failed to create document";
+      const message = error instanceof Error ? error.message : "Failed to import file";
       setLogs((prev) => [...prev, { event: "error", message }]);
     }
   };
@@ -412,9 +1199,9 @@ const HomePage = () => {
       return;
     }
     try {
-      await fetchJson(`${API_BASE_URL}/api/file`, {
+      await fetchJson(`${notebookApi}/file`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "If-Match": contentEtag },
         body: JSON.stringify({ path: selectedFile, newPath: normalized })
       });
       loadFiles();
@@ -422,6 +1209,40 @@ const HomePage = () => {
     } catch (error) {
       const message = error instanceof Error ? error.message : "Failed to rename document";
       setLogs((prev) => [...prev, { event: "error", message }]);
+      loadFileContent(selectedFile);
+    }
+  };
+
+  const handleCompareVersion = async (versionId: number) => {
+    if (!selectedFile) {
+      return;
+    }
+    try {
+      const diff = await fetchJson<VersionDiff>(
+        `${notebookApi}/file/diff?path=${encodeURIComponent(selectedFile)}&from=${versionId}`
+      );
+      setVersionDiff(diff);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to compare versions";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+    }
+  };
+
+  const handleRestoreVersion = async (versionId: number) => {
+    if (!selectedFile) {
+      return;
+    }
+    try {
+      await fetchJson(`${notebookApi}/file/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "If-Match": contentEtag },
+        body: JSON.stringify({ path: selectedFile, version: versionId })
+      });
+      loadFileContent(selectedFile);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to restore version";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+      loadFileContent(selectedFile);
     }
   };
 
@@ -429,13 +1250,16 @@ const HomePage = () => {
     if (!selectedFile) {
       return;
     }
-    const confirmed = window.confirm(`Delete ${selectedFile}? This cannot be undone.`);
+    const confirmed = window.confirm(
+      `Delete ${selectedFile}? Its version history is kept and can be restored.`
+    );
     if (!confirmed) {
       return;
     }
     try {
-      await fetchJson(`${API_BASE_URL}/api/file?path=${encodeURIComponent(selectedFile)}`, {
-        method: "DELETE"
+      await fetchJson(`${notebookApi}/file?path=${encodeURIComponent(selectedFile)}`, {
+        method: "DELETE",
+        headers: { "If-Match": contentEtag }
       });
       setSelectedFile(null);
       setContent("");
@@ -443,6 +1267,7 @@ const HomePage = () => {
     } catch (error) {
       const message = error instanceof Error ? error.message : "Failed to delete document";
       setLogs((prev) => [...prev, { event: "error", message }]);
+      loadFileContent(selectedFile);
     }
   };
 
@@ -451,7 +1276,7 @@ const HomePage = () => {
       return;
     }
     try {
-      await fetchJson(`${API_BASE_URL}/api/run/${activeRunId}/cancel`, { method: "POST" });
+      await fetchJson(`${notebookApi}/run/${activeRunId}/cancel`, { method: "POST" });
       setRunStatus("Cancelling...");
     } catch (error) {
       const message = error instanceof Error ? error.message : "Failed to cancel";
@@ -459,7 +1284,11 @@ const HomePage = () => {
     }
   };
 
-  const handlePlanStepChange = (index: number, field: keyof PlanStep, value: string) => {
+  const handlePlanStepChange = (
+    index: number,
+    field: "title" | "description" | "agent",
+    value: string
+  ) => {
     setPlan((prev) => {
       if (!prev) {
         return prev;
@@ -470,6 +1299,99 @@ const HomePage = () => {
     });
   };
 
+  const handlePlanAgentRoleChange = (index: number, role: string) => {
+    setPlan((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      const agents = [...prev.agents];
+      agents[index] = { ...agents[index], role };
+      return { ...prev, agents };
+    });
+  };
+
+  const handleStepDependencyToggle = (index: number, dependencyId: string) => {
+    setPlan((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      const steps = [...prev.steps];
+      const current = steps[index].dependsOn ?? [];
+      const dependsOn = current.includes(dependencyId)
+        ? current.filter((id) => id !== dependencyId)
+        : [...current, dependencyId];
+      steps[index] = { ...steps[index], dependsOn };
+      return { ...prev, steps };
+    });
+  };
+
+  const handleStepApprovalToggle = (index: number) => {
+    setPlan((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      const steps = [...prev.steps];
+      steps[index] = { ...steps[index], requiresApproval: !steps[index].requiresApproval };
+      return { ...prev, steps };
+    });
+  };
+
+  const handleStepFailurePolicyChange = (index: number, onFailure: StepFailurePolicy) => {
+    setPlan((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      const steps = [...prev.steps];
+      steps[index] = { ...steps[index], onFailure };
+      return { ...prev, steps };
+    });
+  };
+
+  const handleReviewStep = async (stepId: string, action: "approve" | "reject" | "edit") => {
+    if (!activeRunId) {
+      return;
+    }
+    const reason = action === "reject" ? window.prompt("Why are you rejecting this step?") : "";
+    if (reason === null) {
+      return;
+    }
+    try {
+      await fetchJson(`${notebookApi}/run/${activeRunId}/steps/${stepId}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ output: approvalDrafts[stepId] ?? "", reason })
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to review step";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+    }
+  };
+
+  const handleAnswerQuestion = async (questionId: string) => {
+    const answer = questionDrafts[questionId]?.trim();
+    if (!activeRunId || !answer) {
+      return;
+    }
+    try {
+      await fetchJson(`${notebookApi}/run/${activeRunId}/answers`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answers: [{ id: questionId, answer }] })
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to send answer";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+    }
+  };
+
+  const handleClarificationChange = (index: number, question: string, answer: string) => {
+    const id = planQuestionId(index);
+    setClarifications((prev) => [
+      ...prev.filter((clarification) => clarification.id !== id),
+      { id, question, answer }
+    ]);
+  };
+
   const handleAddStep = () => {
     setPlan((prev) => {
       if (!prev || prev.steps.length >= MAX_STEPS) {
@@ -479,7 +1401,8 @@ const HomePage = () => {
         id: `step-${prev.steps.length + 1}`,
         title: "New step",
         description: "Describe what should happen.",
-        agent: prev.agents[0]?.name ?? "Writer"
+        agent: prev.agents[0]?.name ?? "Writer",
+        dependsOn: prev.steps.length > 0 ? [prev.steps[prev.steps.length - 1].id] : []
       };
       return { ...prev, steps: [...prev.steps, nextStep] };
     });
@@ -490,7 +1413,13 @@ const HomePage = () => {
       if (!prev) {
         return prev;
       }
-      const steps = prev.steps.filter((_, idx) => idx !== index);
+      const removedId = prev.steps[index]?.id;
+      const steps = prev.steps
+        .filter((_, idx) => idx !== index)
+        .map((step) => ({
+          ...step,
+          dependsOn: step.dependsOn?.filter((id) => id !== removedId)
+        }));
       return { ...prev, steps };
     });
   };
@@ -515,13 +1444,130 @@ const HomePage = () => {
     });
   };
 
-  const handleForkPlan = () => {
-    if (!runResult?.plan) {
+  const handleForkPlan = (source?: RunPlan) => {
+    const forked = source ?? runResult?.plan;
+    if (!forked) {
       return;
     }
-    setPlan(runResult.plan);
+    setPlan(forked);
     setPlanStatus("Plan ready (forked)");
     setPlanError("");
+    setPlanWarnings([]);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!plan) {
+      return;
+    }
+    const name = window.prompt(
+      "Template name. Use {{variable}} in step descriptions and outputs for values to fill in later.",
+      selectedTemplate?.name ?? ""
+    );
+    if (!name?.trim()) {
+      return;
+    }
+    const existing = templates.find(
+      (template) => template.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (existing && !window.confirm(`Replace the template "${existing.name}"?`)) {
+      return;
+    }
+    try {
+      const { template } = await fetchJson<{ template: TemplateSummary }>(
+        existing ? `${API_BASE_URL}/api/templates/${existing.id}` : `${API_BASE_URL}/api/templates`,
+        {
+          method: existing ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: name.trim(), description: prompt, plan })
+        }
+      );
+      setSelectedTemplateId(template.id);
+      setPlanStatus(`Saved template ${template.name}`);
+      loadTemplates();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to save template";
+      setPlanError(message);
+    }
+  };
+
+  const handleUseTemplate = async () => {
+    if (!selectedTemplate) {
+      return;
+    }
+    try {
+      const { plan: instance } = await fetchJson<{ plan: RunPlan }>(
+        `${API_BASE_URL}/api/templates/${selectedTemplate.id}/instantiate`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ variables: templateValues })
+        }
+      );
+      setPlan(instance);
+      setClarifications([]);
+      setPlanStatus(`Plan ready (from ${selectedTemplate.name})`);
+      setPlanError("");
+      setPlanWarnings([]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to use template";
+      setPlanError(message);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate || !window.confirm(`Delete the template "${selectedTemplate.name}"?`)) {
+      return;
+    }
+    try {
+      await fetchJson(`${API_BASE_URL}/api/templates/${selectedTemplate.id}`, { method: "DELETE" });
+      setSelectedTemplateId("");
+      loadTemplates();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to delete template";
+      setPlanError(message);
+    }
+  };
+
+  const handleForkRun = async (runId: string) => {
+    try {
+      const run = await fetchRunDetail(notebookApi, runId);
+      setPrompt(run.prompt);
+      setClarifications(run.clarifications);
+      handleForkPlan(run.plan);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to fork run";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+    }
+  };
+
+  const handleResumeRun = async (runId: string) => {
+    try {
+      await openRun(runId);
+      prepareRunView();
+      const resumed = await fetchJson<{ runId: string }>(
+        `${notebookApi}/run/${runId}/resume`,
+        { method: "POST" }
+      );
+      followRun(resumed.runId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to resume run";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+      setRunStatus("Error");
+      setIsRunning(false);
+    }
+  };
+
+  const handleRerunRun = async (runId: string) => {
+    try {
+      const run = await fetchRunDetail(notebookApi, runId);
+      setPrompt(run.prompt);
+      setPlan(run.plan);
+      setClarifications(run.clarifications);
+      await runPlan({ plan: run.plan, prompt: run.prompt, clarifications: run.clarifications });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to re-run";
+      setLogs((prev) => [...prev, { event: "error", message }]);
+    }
   };
 
   return (
@@ -532,17 +1578,94 @@ const HomePage = () => {
             <p className="sidebar-label">Workspace</p>
             <h2>Notebook</h2>
           </div>
-          <button type="button" className="secondary-button" onClick={handleCreateDoc}>
-            New Doc
+          <div className="sidebar-actions">
+            <button
+              type="button"
+              className="secondary-button"
+              onClick={handleCreateDoc}
+              disabled={!canEdit}
+            >
+              New Doc
+            </button>
+            <button
+              type="button"
+              className="secondary-button"
+              onClick={() => importInput.current?.click()}
+              disabled={!canEdit}
+              title="Import a PDF, Word, HTML or CSV file as markdown"
+            >
+              Import
+            </button>
+            <input
+              ref={importInput}
+              type="file"
+              accept={IMPORT_ACCEPT}
+              hidden
+              onChange={handleImportDoc}
+            />
+          </div>
+        </div>
+        <div className="session-user">
+          <span>
+            {user.username}
+            <small>{user.roles.join(", ")}</small>
+          </span>
+          <button type="button" onClick={onSignOut}>
+            Sign out
           </button>
         </div>
 
+        <div className="notebook-switcher">
+          <select
+            value={notebookId}
+            onChange={(event) => onNotebookChange(event.target.value)}
+            aria-label="Notebook"
+          >
+            {notebooks
+              .filter((notebook) => !notebook.archivedAt)
+              .map((notebook) => (
+                <option key={notebook.id} value={notebook.id}>
+                  {notebook.name}
+                </option>
+              ))}
+            {notebooks.some((notebook) => notebook.archivedAt) ? (
+              <optgroup label="Archived">
+                {notebooks
+                  .filter((notebook) => notebook.archivedAt)
+                  .map((notebook) => (
+                    <option key={notebook.id} value={notebook.id}>
+                      {notebook.name}
+                    </option>
+                  ))}
+              </optgroup>
+            ) : null}
+          </select>
+          <div className="history-actions">
+            <button type="button" onClick={handleCreateNotebook} disabled={!canManageNotebooks}>
+              New
+            </button>
+            <button type="button" onClick={handleRenameNotebook} disabled={!canManageNotebooks}>
+              Rename
+            </button>
+            {notebookId !== DEFAULT_NOTEBOOK_ID ? (
+              <button
+                type="button"
+                onClick={() => updateNotebook({ archived: !isArchived })}
+                disabled={!hasRole(user, "admin")}
+              >
+                {isArchived ? "Restore" : "Archive"}
+              </button>
+            ) : null}
+          </div>
+          {isArchived ? <small>Archived · read-only</small> : null}
+        </div>
+
         <div className="search-box">
           <input
             type="search"
             value={searchQuery}
             onChange={(event) => setSearchQuery(event.target.value)}
-            placeholder="Search documents"
+            placeholder='Search ("phrase", OR, -exclude, folder:)'
           />
         </div>
 
@@ -560,7 +1683,16 @@ const HomePage = () => {
                     }}
                   >
                     <strong>{formatDocTitle(result.path)}</strong>
-                    <span>{result.snippet}</span>
+                    {result.passages.length === 0 ? <span>{result.snippet}</span> : null}
+                    {result.passages.slice(0, MAX_VISIBLE_PASSAGES).map((passage) => (
+                      <span key={passage.line} className="search-passage">
+                        <small>L{passage.line}</small>{" "}
+                        {renderHighlighted(passage.text, passage.highlights)}
+                      </span>
+                    ))}
+                    {result.passages.length > MAX_VISIBLE_PASSAGES ? (
+                      <small>+{result.passages.length - MAX_VISIBLE_PASSAGES} more matches</small>
+                    ) : null}
                   </button>
                 </li>
               ))}
@@ -583,6 +1715,71 @@ const HomePage = () => {
             </li>
           ))}
         </ul>
+
+        <div className="run-history">
+          <p className="sidebar-label">Run history</p>
+          <div className="search-box">
+            <input
+              type="search"
+              value={historyQuery}
+              onChange={(event) => setHistoryQuery(event.target.value)}
+              placeholder="Filter by prompt"
+            />
+          </div>
+          <select value={historyStatus} onChange={(event) => setHistoryStatus(event.target.value)}>
+            <option value="">All statuses</option>
+            <option value="done">Done</option>
+            <option value="queued">Queued</option>
+            <option value="running">Running</option>
+            <option value="error">Error</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          {runHistory.length === 0 ? (
+            <small>No runs yet.</small>
+          ) : (
+            <ul>
+              {runHistory.map((run) => (
+                <li
+                  key={run.id}
+                  className={`history-item ${run.status} ${run.id === openedRunId ? "active" : ""}`}
+                >
+                  <button type="button" onClick={() => openRun(run.id)}>
+                    <strong>{run.interpretedGoal || run.prompt}</strong>
+                    <small>
+                      {formatRunTime(run.createdAt)} · {run.status} · {run.artifactCount} artifacts
+                      {run.createdBy ? ` · ${run.createdBy}` : ""}
+                    </small>
+                  </button>
+                  <div className="history-actions">
+                    <button
+                      type="button"
+                      onClick={() => handleForkRun(run.id)}
+                      disabled={isRunning}
+                    >
+                      Fork
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRerunRun(run.id)}
+                      disabled={isRunning || !canRun}
+                    >
+                      Re-run
+                    </button>
+                    {run.status === "error" || run.status === "cancelled" ? (
+                      <button
+                        type="button"
+                        onClick={() => handleResumeRun(run.id)}
+                        disabled={isRunning || !canRun}
+                      >
+                        Resume
+                      </button>
+                    ) : null}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </aside>
 
       <main className="main-content">
@@ -601,7 +1798,7 @@ const HomePage = () => {
                 type="button"
                 className="secondary-button"
                 onClick={handleRenameDoc}
-                disabled={!selectedFile}
+                disabled={!selectedFile || !canEdit}
               >
                 Rename
               </button>
@@ -609,7 +1806,7 @@ const HomePage = () => {
                 type="button"
                 className="secondary-button danger"
                 onClick={handleDeleteDoc}
-                disabled={!selectedFile}
+                disabled={!selectedFile || !canEdit}
               >
                 Delete
               </button>
@@ -619,30 +1816,102 @@ const HomePage = () => {
           <div className="toolbar">
             <textarea value={prompt} onChange={(event) => setPrompt(event.target.value)} />
             <div className="toolbar-actions">
-              <button type="button" onClick={generatePlan} disabled={isRunning}>
+              <button type="button" onClick={generatePlan} disabled={isRunning || !canRun}>
                 Generate Plan
               </button>
               <button
                 type="button"
                 className="secondary-button"
                 onClick={() => runPlan()}
-                disabled={!plan || isRunning}
+                disabled={!plan || isRunning || !canRun}
               >
                 Run Plan
               </button>
+              <select
+                className="run-priority"
+                value={runPriority}
+                onChange={(event) => setRunPriority(event.target.value as RunPriority)}
+                aria-label="Run priority"
+              >
+                <option value="low">Low priority</option>
+                <option value="normal">Normal priority</option>
+                <option value="high">High priority</option>
+              </select>
+              <button
+                type="button"
+                className="secondary-button"
+                onClick={handleSaveTemplate}
+                disabled={!plan || !canRun}
+              >
+                Save as Template
+              </button>
               <button
                 type="button"
                 className="secondary-button danger"
                 onClick={handleCancelRun}
-                disabled={!activeRunId || !isRunning}
+                disabled={!activeRunId || !isRunning || !canRun}
               >
                 Cancel Run
               </button>
             </div>
           </div>
+          {templates.length > 0 ? (
+            <div className="template-picker">
+              <select
+                value={selectedTemplateId}
+                onChange={(event) => {
+                  setSelectedTemplateId(event.target.value);
+                  setTemplateValues({});
+                }}
+              >
+                <option value="">Start from a template…</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} ({template.stepCount} steps)
+                  </option>
+                ))}
+              </select>
+              {selectedTemplate?.variables.map((name) => (
+                <label key={name}>
+                  <span>{name}</span>
+                  <input
+                    value={templateValues[name] ?? ""}
+                    onChange={(event) =>
+                      setTemplateValues((prev) => ({ ...prev, [name]: event.target.value }))
+                    }
+                  />
+                </label>
+              ))}
+              <button
+                type="button"
+                onClick={handleUseTemplate}
+                disabled={
+                  !selectedTemplate ||
+                  isRunning ||
+                  !canRun ||
+                  selectedTemplate.variables.some((name) => !templateValues[name]?.trim())
+                }
+              >
+                Use Template
+              </button>
+              <button
+                type="button"
+                className="secondary-button danger"
+                onClick={handleDeleteTemplate}
+                disabled={!selectedTemplate || !canRun}
+              >
+                Delete
+              </button>
+            </div>
+          ) : null}
           <div className="status-row">
             <span className="status-pill">{planStatus}</span>
             {planError ? <span className="status-error">{planError}</span> : null}
+            {planWarnings.map((warning, index) => (
+              <span key={index} className="status-warning" title={formatWarningIssues(warning)}>
+                {warning.message}
+              </span>
+            ))}
           </div>
         </section>
 
@@ -661,10 +1930,28 @@ const HomePage = () => {
                 <div>
                   <p className="panel-meta">Sub-agents</p>
                   <ul className="pill-list">
-                    {planAgents.map((agent) => (
+                    {planAgents.map((agent, index) => (
                       <li key={agent.name}>
                         <strong>{agent.name}</strong>
-                        <span>{agent.role}</span>
+                        <select
+                          className="role-picker"
+                          value={agent.role}
+                          onChange={(event) => handlePlanAgentRoleChange(index, event.target.value)}
+                        >
+                          {archetypes.some((archetype) => archetype.role === agent.role) ? null : (
+                            <option value={agent.role}>{agent.role}</option>
+                          )}
+                          {archetypes.map((archetype) => (
+                            <option
+                              key={archetype.role}
+                              value={archetype.role}
+                              title={archetype.description}
+                            >
+                              {archetype.role}
+                              {archetype.source === "workspace" ? " (workspace)" : ""}
+                            </option>
+                          ))}
+                        </select>
                       </li>
                     ))}
                   </ul>
@@ -710,6 +1997,45 @@ const HomePage = () => {
                             handlePlanStepChange(index, "description", event.target.value)
                           }
                         />
+                        {index > 0 && (
+                          <div className="step-dependencies">
+                            <span className="panel-meta">Depends on</span>
+                            {planSteps.slice(0, index).map((dependency, dependencyIndex) => (
+                              <label key={dependency.id}>
+                                <input
+                                  type="checkbox"
+                                  checked={step.dependsOn?.includes(dependency.id) ?? false}
+                                  onChange={() => handleStepDependencyToggle(index, dependency.id)}
+                                />
+                                {dependencyIndex + 1}. {dependency.title}
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                        <label className="step-approval">
+                          <input
+                            type="checkbox"
+                            checked={step.requiresApproval ?? false}
+                            onChange={() => handleStepApprovalToggle(index)}
+                          />
+                          Pause for approval after this step
+                        </label>
+                        <label className="step-approval">
+                          On failure
+                          <select
+                            value={step.onFailure ?? "retry"}
+                            onChange={(event) =>
+                              handleStepFailurePolicyChange(
+                                index,
+                                event.target.value as StepFailurePolicy
+                              )
+                            }
+                          >
+                            <option value="retry">Retry, then stop the run</option>
+                            <option value="skip">Retry, then skip the step</option>
+                            <option value="abort">Stop the run</option>
+                          </select>
+                        </label>
                       </li>
                     ))}
                   </ol>
@@ -747,16 +2073,18 @@ const HomePage = () => {
                   {plan.questions.length > 0 && (
                     <div className="clarifications">
                       <p className="panel-meta">Clarifying questions</p>
-                      <ul>
-                        {plan.questions.map((question) => (
-                          <li key={question}>{question}</li>
-                        ))}
-                      </ul>
-                      <textarea
-                        placeholder="Answer the questions so we can continue."
-                        value={clarifications}
-                        onChange={(event) => setClarifications(event.target.value)}
-                      />
+                      {plan.questions.map((question, index) => (
+                        <label key={planQuestionId(index)} className="clarification">
+                          <span>{question}</span>
+                          <textarea
+                            placeholder="Your answer"
+                            value={findAnswer(clarifications, planQuestionId(index))}
+                            onChange={(event) =>
+                              handleClarificationChange(index, question, event.target.value)
+                            }
+                          />
+                        </label>
+                      ))}
                     </div>
                   )}
                 </div>
@@ -772,9 +2100,92 @@ const HomePage = () => {
             <h3>{selectedLabel}</h3>
             <span className="panel-meta">Rendered document</span>
           </div>
+          {citedLines.length && citedPassage ? (
+            <div className="cited-passage">
+              <p className="panel-meta">
+                Cited passage · lines {citedPassage.startLine}-{citedPassage.endLine}
+                <button type="button" onClick={() => setCitedPassage(null)}>
+                  Close
+                </button>
+              </p>
+              <pre>{citedLines.join("\n")}</pre>
+            </div>
+          ) : null}
+          {renderedDoc.source ? (
+            <p className="panel-meta">
+              Imported from{" "}
+              <a href={`${notebookApi}/file/source?path=${encodeURIComponent(selectedFile ?? "")}`}>
+                {renderedDoc.source}
+              </a>
+            </p>
+          ) : null}
           <div className="markdown">
-            {content ? <ReactMarkdown>{content}</ReactMarkdown> : <p>No content.</p>}
+            {content ? (
+              <ReactMarkdown
+                components={{
+                  a: ({ href, children }) => {
+                    const citation = href?.startsWith(CITATION_HREF)
+                      ? parseCitationHref(href)
+                      : null;
+                    if (!citation) {
+                      return <a href={href}>{children}</a>;
+                    }
+                    return (
+                      <button
+                        type="button"
+                        className="citation-marker"
+                        title={citation.id}
+                        onClick={() => openCitation(citation)}
+                      >
+                        {children}
+                      </button>
+                    );
+                  }
+                }}
+              >
+                {linkCitations(renderedDoc.body)}
+              </ReactMarkdown>
+            ) : (
+              <p>No content.</p>
+            )}
           </div>
+          {docVersions.length ? (
+            <details className="version-history">
+              <summary>Version history ({docVersions.length})</summary>
+              <ul>
+                {docVersions.map((version, index) => (
+                  <li key={version.id}>
+                    <span>
+                      v{version.id} · {version.author} · {formatRunTime(version.timestamp)}
+                      <small>{version.reason}</small>
+                    </span>
+                    {index > 0 && !version.deleted ? (
+                      <span className="history-actions">
+                        <button type="button" onClick={() => handleCompareVersion(version.id)}>
+                          Compare
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRestoreVersion(version.id)}
+                          disabled={!canEdit}
+                        >
+                          Restore
+                        </button>
+                      </span>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+              {versionDiff ? (
+                <div className="diff-card">
+                  <h4>
+                    v{versionDiff.from.id} → v{versionDiff.to.id}
+                  </h4>
+                  <DiffView diff={versionDiff} />
+                </div>
+              ) : null}
+            </details>
+          ) : null}
         </section>
 
         <section className="panel grid-panel">
@@ -783,6 +2194,81 @@ const HomePage = () => {
               <h3>Run timeline</h3>
               <span className="panel-meta">Live status and step progress</span>
             </div>
+            {runWarnings.length > 0 ? (
+              <ul className="run-warnings">
+                {runWarnings.map((warning, index) => (
+                  <li key={index} title={formatWarningIssues(warning)}>
+                    {warning.message}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+            {pendingQuestions.map((pending) => (
+              <div key={pending.id} className="approval-card question-card">
+                <p className="panel-meta">Question from {pending.stepId}</p>
+                <p>{pending.question}</p>
+                <textarea
+                  placeholder="Your answer"
+                  value={questionDrafts[pending.id] ?? ""}
+                  onChange={(event) =>
+                    setQuestionDrafts((prev) => ({ ...prev, [pending.id]: event.target.value }))
+                  }
+                />
+                <div className="approval-actions">
+                  <button
+                    type="button"
+                    disabled={!questionDrafts[pending.id]?.trim() || !canRun}
+                    onClick={() => handleAnswerQuestion(pending.id)}
+                  >
+                    Answer and continue
+                  </button>
+                </div>
+              </div>
+            ))}
+            {pendingApprovals.map((pending) => (
+              <div key={pending.stepId} className="approval-card">
+                <p className="panel-meta">
+                  Awaiting approval · {pending.title} <em>{pending.agent}</em>
+                </p>
+                <textarea
+                  value={approvalDrafts[pending.stepId] ?? pending.output}
+                  onChange={(event) =>
+                    setApprovalDrafts((prev) => ({
+                      ...prev,
+                      [pending.stepId]: event.target.value
+                    }))
+                  }
+                />
+                <div className="approval-actions">
+                  <button
+                    type="button"
+                    onClick={() => handleReviewStep(pending.stepId, "approve")}
+                    disabled={!canRun}
+                  >
+                    Approve
+                  </button>
+                  <button
+                    type="button"
+                    className="secondary-button"
+                    disabled={
+                      !canRun ||
+                      (approvalDrafts[pending.stepId] ?? pending.output) === pending.output
+                    }
+                    onClick={() => handleReviewStep(pending.stepId, "edit")}
+                  >
+                    Approve with edits
+                  </button>
+                  <button
+                    type="button"
+                    className="secondary-button"
+                    onClick={() => handleReviewStep(pending.stepId, "reject")}
+                    disabled={!canRun}
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ))}
             <ul className="timeline">
               <li className="timeline-item active">
                 <span className="timeline-dot" />
@@ -793,16 +2279,80 @@ const HomePage = () => {
                   <span className="timeline-dot" />
                   <span>
                     {step.title} <em>{step.agent}</em>
+                    {stepUsage[step.id] ? (
+                      <small className="step-usage">
+                        {formatTokens(
+                          stepUsage[step.id].inputTokens + stepUsage[step.id].outputTokens
+                        )}{" "}
+                        tokens
+                      </small>
+                    ) : null}
+                    {runResult?.steps.some(
+                      (result) => result.stepId === step.id && result.reused
+                    ) ? (
+                      <small className="step-usage">reused from an earlier run</small>
+                    ) : null}
+                    {stepFailures[step.id]?.length ? (
+                      <ul className="step-failures">
+                        {stepFailures[step.id].map((failure) => (
+                          <li key={failure.attempt}>
+                            Attempt {failure.attempt} failed ({failure.kind}): {failure.error}
+                            <small>
+                              {failure.next === "retry"
+                                ? ` retrying in ${Math.round((failure.retryInMs ?? 0) / 1000)}s`
+                                : failure.next === "skip"
+                                  ? " skipped"
+                                  : " run stopped"}
+                            </small>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                    {stepStatus.get(step.id) === "active" && liveNotes[step.id]?.text ? (
+                      <div className="step-live markdown">
+                        <ReactMarkdown>{liveNotes[step.id].text}</ReactMarkdown>
+                      </div>
+                    ) : null}
+                    {stepExcerpts[step.id]?.length ? (
+                      <details className="step-excerpts">
+                        <summary>Read {stepExcerpts[step.id].length} excerpts</summary>
+                        <ul>
+                          {stepExcerpts[step.id].map((excerpt) => (
+                            <li key={excerpt.id}>
+                              <button type="button" onClick={() => setSelectedFile(excerpt.path)}>
+                                {excerpt.path} L{excerpt.startLine}-{excerpt.endLine}
+                              </button>
+                              {excerpt.heading ? <small>{excerpt.heading}</small> : null}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    ) : null}
                   </span>
                 </li>
               ))}
             </ul>
-            {runResult?.sources?.length ? (
+            {runUsage ? (
+              <div className="usage-meter">
+                <p className="panel-meta">Token usage · {formatUsage(runUsage)}</p>
+                {tokenBudget ? (
+                  <progress
+                    value={Math.min(runUsage.inputTokens + runUsage.outputTokens, tokenBudget.run)}
+                    max={tokenBudget.run}
+                  />
+                ) : null}
+              </div>
+            ) : null}
+            {runResult?.citations?.length ? (
               <div className="sources">
-                <p className="panel-meta">Sources provided</p>
+                <p className="panel-meta">Cited sources</p>
                 <ul>
-                  {runResult.sources.map((source) => (
-                    <li key={source}>{source}</li>
+                  {runResult.citations.map((citation) => (
+                    <li key={citation.id}>
+                      <button type="button" onClick={() => openCitation(citation)}>
+                        {citation.path} L{citation.startLine}-{citation.endLine}
+                      </button>
+                    </li>
                   ))}
                 </ul>
               </div>
@@ -829,6 +2379,20 @@ const HomePage = () => {
                     <span>{artifact.relativePath}</span>
                   </button>
                 ))}
+                {openedRunId && runResult.artifacts.length ? (
+                  <div className="bundle-export">
+                    <span className="panel-meta">Download the bundle with a cover page</span>
+                    {BUNDLE_EXPORTS.map((option) => (
+                      <a
+                        key={option.format}
+                        className="secondary-button"
+                        href={`${notebookApi}/run/${openedRunId}/export?format=${option.format}`}
+                      >
+                        {option.label}
+                      </a>
+                    ))}
+                  </div>
+                ) : null}
               </div>
             ) : (
               <p>Run the plan to generate artifacts.</p>
@@ -843,20 +2407,21 @@ const HomePage = () => {
           </div>
           {runResult ? (
             <div className="diff-grid">
-              {artifactsWithDiff.map((artifact) => (
+              {runResult.artifacts.map((artifact) => (
                 <div key={artifact.relativePath} className="diff-card">
                   <h4>{artifact.relativePath}</h4>
-                  {artifact.diff.length === 0 ? (
-                    <p>No line changes detected.</p>
+                  {artifact.merge ? (
+                    <p className={`merge-status ${artifact.merge.conflicts ? "conflict" : ""}`}>
+                      Merged with your edits
+                      {artifact.merge.conflicts
+                        ? ` · ${artifact.merge.conflicts} conflicts to resolve`
+                        : ""}
+                    </p>
+                  ) : null}
+                  {artifactDiffs[artifact.relativePath] ? (
+                    <DiffView diff={artifactDiffs[artifact.relativePath]} />
                   ) : (
-                    <ul className="diff">
-                      {artifact.diff.map((line, index) => (
-                        <li key={`${line.type}-${index}`} className={`diff-${line.type}`}>
-                          <span>{line.type === "added" ? "+" : "-"}</span>
-                          <code>{line.text}</code>
-                        </li>
-                      ))}
-                    </ul>
+                    <p>Loading diff...</p>
                   )}
                 </div>
               ))}
@@ -884,7 +2449,7 @@ const HomePage = () => {
                 type="button"
                 className="secondary-button"
                 onClick={() => runPlan({ mode: "refine" })}
-                disabled={isRunning || !runResult}
+                disabled={isRunning || !runResult || !canRun}
               >
                 Refine outputs
               </button>
@@ -908,15 +2473,20 @@ const HomePage = () => {
               <button
                 type="button"
                 className="secondary-button"
-                onClick={() => runPlan({ startingStepIndex: Number(rerunStep || 0) })}
-                disabled={isRunning || !plan || rerunStep === ""}
+                onClick={() =>
+                  runPlan({
+                    startingStepIndex: Number(rerunStep || 0),
+                    sourceRunId: openedRunId ?? undefined
+                  })
+                }
+                disabled={isRunning || !plan || rerunStep === "" || !canRun}
               >
                 Re-run step
               </button>
               <button
                 type="button"
                 className="secondary-button"
-                onClick={handleForkPlan}
+                onClick={() => handleForkPlan()}
                 disabled={!runResult}
               >
                 Fork run
@@ -947,4 +2517,50 @@ const HomePage = () => {
   );
 };
 
+const HomePage = () => {
+  const [session, setSession] = useState<SessionResponse | null>(null);
+  const [sessionError, setSessionError] = useState<string>("");
+  const [notebookId, setNotebookId] = useState<string>(DEFAULT_NOTEBOOK_ID);
+
+  useEffect(() => {
+    fetchJson<SessionResponse>(`${API_BASE_URL}/api/auth/session`)
+      .then(setSession)
+      .catch((error) => {
+        setSessionError(error instanceof Error ? error.message : "Failed to reach the API");
+      });
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetchJson(`${API_BASE_URL}/api/auth/logout`, { method: "POST" }).catch(() => null);
+    setSession({ user: null, setupRequired: false });
+  };
+
+  if (!session) {
+    return (
+      <div className="sign-in">
+        <p className={sessionError ? "status-error" : "panel-meta"}>
+          {sessionError || "Checking your session..."}
+        </p>
+      </div>
+    );
+  }
+  if (!session.user) {
+    return (
+      <SignInPanel
+        setupRequired={session.setupRequired}
+        onSignedIn={(user) => setSession({ user, setupRequired: false })}
+      />
+    );
+  }
+  return (
+    <Workspace
+      key={`${session.user.id}:${notebookId}`}
+      user={session.user}
+      notebookId={notebookId}
+      onNotebookChange={setNotebookId}
+      onSignOut={handleSignOut}
+    />
+  );
+};
+
 export default HomePage;
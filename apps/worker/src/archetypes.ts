@@ -0,0 +1,131 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export type AgentArchetype = {
+  role: string;
+  description: string;
+  /** Instructions given to every sub-agent with this role. */
+  systemPrompt: string;
+  /** Model used for this role's steps instead of the provider default. */
+  model?: string;
+  /** Outputs this role's notes may feed; empty means any. */
+  allowedOutputs: string[];
+  source: "built-in" | "workspace";
+};
+
+/** Directory under the workspace holding one `<role>.md` file per custom archetype. */
+export const AGENTS_DIR = "agents";
+
+export const BUILT_IN_ARCHETYPES: AgentArchetype[] = [
+  {
+    role: "Researcher",
+    description: "Finds the relevant facts in the workspace documents.",
+    systemPrompt: "Collect the facts that bear on this step and note where each one comes from.",
+    allowedOutputs: [],
+    source: "built-in"
+  },
+  {
+    role: "Writer",
+    description: "Turns notes into clear, structured prose.",
+    systemPrompt: "Write clear, well-structured prose from the facts and notes you are given.",
+    allowedOutputs: [],
+    source: "built-in"
+  },
+  {
+    role: "Critic",
+    description: "Surfaces gaps, risks and unsupported claims.",
+    systemPrompt: "Look for gaps, risks and unsupported claims, and say how to address each one.",
+    allowedOutputs: [],
+    source: "built-in"
+  },
+  {
+    role: "Organizer",
+    description: "Structures material into deliverables and action lists.",
+    systemPrompt: "Organize the material into actionable lists and tidy, shareable sections.",
+    allowedOutputs: [],
+    source: "built-in"
+  }
+];
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/** Splits `key: value` frontmatter (keys lower-cased) from the markdown that follows it. */
+export const parseFrontmatter = (raw: string) => {
+  const match = raw.match(FRONTMATTER);
+  const fields = new Map<string, string>();
+  for (const line of (match?.[1] ?? "").split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      fields.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+    }
+  }
+  return { fields, body: raw.slice(match?.[0].length ?? 0) };
+};
+
+const roleFromFileName = (fileName: string) =>
+  path
+    .basename(fileName, ".md")
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(" ");
+
+const parseList = (value: string) =>
+  value
+    .replace(/^\[|\]$/g, "")
+    .split(",")
+    .map((item) => item.trim().replace(/^["']|["']$/g, ""))
+    .filter(Boolean)
+    .map((item) => (item.toLowerCase().endsWith(".md") ? item : `${item}.md`));
+
+/**
+ * Parses an archetype file: optional `key: value` frontmatter (`role`,
+ * `description`, `model`, `outputs` as a comma-separated list) followed by
+ * the system prompt. The role defaults to the file name in title case.
+ */
+export const parseArchetype = (fileName: string, raw: string): AgentArchetype | null => {
+  const { fields, body } = parseFrontmatter(raw);
+  const role = fields.get("role") || roleFromFileName(fileName);
+  const systemPrompt = body.trim();
+  if (!role || !systemPrompt) {
+    return null;
+  }
+  const model = fields.get("model");
+  return {
+    role,
+    description: fields.get("description") ?? "",
+    systemPrompt,
+    ...(model ? { model } : {}),
+    allowedOutputs: parseList(fields.get("outputs") ?? ""),
+    source: "workspace"
+  };
+};
+
+export const findArchetype = (archetypes: AgentArchetype[], role: string | undefined) =>
+  role
+    ? archetypes.find((archetype) => archetype.role.toLowerCase() === role.trim().toLowerCase())
+    : undefined;
+
+/**
+ * Built-in archetypes plus those defined in `<workspace>/agents/*.md`. A
+ * workspace file with the same role as a built-in replaces it.
+ */
+export const loadAgentArchetypes = async (workspaceRoot: string) => {
+  const dir = path.join(workspaceRoot, AGENTS_DIR);
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files = entries
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".md"))
+    .map((entry) => entry.name)
+    .sort();
+  const custom: AgentArchetype[] = [];
+  for (const file of files) {
+    const archetype = parseArchetype(file, await fs.readFile(path.join(dir, file), "utf8"));
+    if (archetype && !findArchetype(custom, archetype.role)) {
+      custom.push(archetype);
+    }
+  }
+  return [
+    ...BUILT_IN_ARCHETYPES.filter((archetype) => !findArchetype(custom, archetype.role)),
+    ...custom
+  ];
+};
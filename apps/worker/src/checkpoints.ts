@@ -0,0 +1,32 @@
+import type { PlanStep, RunPlan, StepResult } from "./index.js";
+
+/** The plan and step results stored with an earlier run. */
+export type RunCheckpoint = {
+  plan: RunPlan;
+  steps: StepResult[];
+};
+
+const sameStep = (a: PlanStep, b: PlanStep) =>
+  a.title === b.title &&
+  a.description === b.description &&
+  a.agent === b.agent &&
+  (a.dependsOn ?? []).join() === (b.dependsOn ?? []).join();
+
+/**
+ * Picks the stored results that `plan` can reuse: the step must be unchanged
+ * since the earlier run, and `rerunStepId` is always left out so it runs again.
+ * `runAgent` then also drops results that depend on a step that runs again.
+ */
+export const selectCheckpoints = (
+  plan: RunPlan,
+  checkpoint: RunCheckpoint,
+  rerunStepId?: string
+): StepResult[] => {
+  const previous = new Map(checkpoint.plan.steps.map((step) => [step.id, step]));
+  const current = new Map(plan.steps.map((step) => [step.id, step]));
+  return checkpoint.steps.filter((result) => {
+    const before = previous.get(result.stepId);
+    const now = current.get(result.stepId);
+    return result.stepId !== rerunStepId && before && now && sameStep(before, now);
+  });
+};
@@ -0,0 +1,103 @@
+import { pageAtLine, readProvenance } from "./importers.js";
+import type { ChunkReference } from "./retrieval.js";
+
+export type Citation = {
+  id: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+};
+
+/** Matches markers such as `[[client-notes.md#L3-L7]]` or `[[client-notes.md#L3]]`. */
+const CITATION_PATTERN = /\[\[([^\]#\n]+?\.md)#L(\d+)(?:-L?(\d+))?\]\]/g;
+
+export const formatCitation = (path: string, startLine: number, endLine: number) =>
+  `${path}#L${startLine}-L${endLine}`;
+
+/**
+ * Resolves the citation markers in an artifact against the workspace docs.
+ * Markers that point at unknown documents or lines are removed from the
+ * content; valid ones are normalized to `[[path#Lx-Ly]]` with clamped lines.
+ */
+export const resolveCitations = (content: string, docs: { path: string; content: string }[]) => {
+  const lineCounts = new Map(docs.map((doc) => [doc.path, doc.content.split("\n").length]));
+  const citations = new Map<string, Citation>();
+
+  const resolved = content.replace(
+    CITATION_PATTERN,
+    (_marker, rawPath: string, rawStart: string, rawEnd?: string) => {
+      const docPath = rawPath.trim().replace(/^\/+/, "");
+      const lineCount = lineCounts.get(docPath);
+      const startLine = Number(rawStart);
+      if (!lineCount || startLine < 1 || startLine > lineCount) {
+        return "";
+      }
+      const endLine = Math.min(Math.max(Number(rawEnd ?? rawStart), startLine), lineCount);
+      const id = formatCitation(docPath, startLine, endLine);
+      citations.set(id, { id, path: docPath, startLine, endLine });
+      return `[[${id}]]`;
+    }
+  );
+
+  return { content: resolved, citations: Array.from(citations.values()) };
+};
+
+const describeSpan = (docs: { path: string; content: string }[], citation: Citation) => {
+  const lines = docs.find((doc) => doc.path === citation.path)?.content.split("\n") ?? [];
+  const preview = lines
+    .slice(citation.startLine - 1, citation.endLine)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return preview.length > 100 ? `${preview.slice(0, 97)}...` : preview;
+};
+
+/**
+ * Builds Sources.md from the citations the artifacts actually use, grouped by
+ * document. Passages the agents read but nobody cited are listed separately.
+ */
+export const buildSourcesContent = (
+  citations: Citation[],
+  excerpts: ChunkReference[],
+  docs: { path: string; content: string }[]
+) => {
+  const byPath = new Map<string, Citation[]>();
+  for (const citation of citations) {
+    byPath.set(citation.path, [...(byPath.get(citation.path) ?? []), citation]);
+  }
+
+  const cited = Array.from(byPath.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([docPath, spans]) => {
+      // Imported docs point back to their original file and, for PDFs, the page.
+      const content = docs.find((doc) => doc.path === docPath)?.content ?? "";
+      const provenance = readProvenance(content);
+      return [
+        provenance ? `### ${docPath} (imported from ${provenance.source})` : `### ${docPath}`,
+        ...spans
+          .sort((a, b) => a.startLine - b.startLine)
+          .map((span) => {
+            const page = provenance?.pages ? pageAtLine(content, span.startLine) : undefined;
+            const lines = `Lines ${span.startLine}-${span.endLine}${page ? `, page ${page}` : ""}`;
+            return `- [[${span.id}]] ${lines}: ${describeSpan(docs, span)}`;
+          })
+      ].join("\n");
+    });
+
+  const readOnly = Array.from(new Set(excerpts.map((excerpt) => excerpt.path)))
+    .filter((docPath) => !byPath.has(docPath))
+    .sort();
+
+  return [
+    "# Sources",
+    "",
+    "## Cited passages",
+    "",
+    cited.length ? cited.join("\n\n") : "- No workspace passages were cited.",
+    readOnly.length
+      ? ["", "## Read but not cited", "", ...readOnly.map((docPath) => `- ${docPath}`)].join("\n")
+      : ""
+  ]
+    .join("\n")
+    .trim();
+};
@@ -0,0 +1,46 @@
+export type Clarification = {
+  id: string;
+  question: string;
+  answer: string;
+  /** Set for questions a sub-agent raised while working on a step. */
+  stepId?: string;
+};
+
+export type BlockingQuestion = {
+  id: string;
+  stepId: string;
+  question: string;
+};
+
+export const BLOCKING_QUESTION_PREFIX = "BLOCKING QUESTION:";
+
+export const MAX_STEP_QUESTIONS = 2;
+
+/** Ids of the planner's questions, which are answered before the run starts. */
+export const planQuestionId = (index: number) => `q-${index + 1}`;
+
+export const QUESTION_INSTRUCTION = [
+  "If you cannot do this step without information only the user has,",
+  `reply with a single line starting with "${BLOCKING_QUESTION_PREFIX}" followed by the question,`,
+  "and nothing else. Otherwise make reasonable assumptions and say so in your notes."
+].join(" ");
+
+/** Returns the question when a step's output is a blocking question instead of notes. */
+export const parseBlockingQuestion = (output: string) => {
+  const trimmed = output.trim();
+  if (!trimmed.toUpperCase().startsWith(BLOCKING_QUESTION_PREFIX)) {
+    return null;
+  }
+  const question = trimmed.slice(BLOCKING_QUESTION_PREFIX.length).split("\n")[0].trim();
+  return question || null;
+};
+
+export const formatClarifications = (clarifications: Clarification[]) =>
+  clarifications
+    .filter((clarification) => clarification.answer.trim())
+    .map((clarification) =>
+      clarification.question
+        ? `- Q: ${clarification.question}\n  A: ${clarification.answer}`
+        : `- ${clarification.answer}`
+    )
+    .join("\n");
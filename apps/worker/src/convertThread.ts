@@ -0,0 +1,13 @@
+/**
+ * Entry point of the worker thread started by `convertInThread`. It converts
+ * one uploaded file and posts the `ConvertedDoc` back; conversion errors end
+ * the thread with an `error` event.
+ */
+import { parentPort, workerData } from "node:worker_threads";
+import { convertToMarkdown, type ImportFormat } from "./importers.js";
+
+const { format, data } = workerData as { format: ImportFormat; data: Uint8Array };
+
+parentPort?.postMessage(
+  convertToMarkdown(format, Buffer.from(data.buffer, data.byteOffset, data.byteLength))
+);
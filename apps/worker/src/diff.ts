@@ -0,0 +1,277 @@
+export type DiffLineType = "equal" | "added" | "removed";
+
+export type DiffSegment = {
+  text: string;
+  changed: boolean;
+};
+
+export type DiffLine = {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+  /** Word-level changes when a removed line was replaced by a similar added line. */
+  segments?: DiffSegment[];
+};
+
+export type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+};
+
+export type DocumentDiff = {
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+};
+
+export type MergeResult = {
+  content: string;
+  conflicts: number;
+};
+
+export const DIFF_CONTEXT_LINES = 3;
+
+/** Above this many comparisons the middle of two sequences is treated as fully replaced. */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Returns the index pairs of a longest common subsequence of `a` and `b`.
+ * Shared prefixes and suffixes are matched directly so the quadratic table
+ * only covers the changed middle.
+ */
+const lcsPairs = <T>(a: T[], b: T[]): [number, number][] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const pairs: [number, number][] = [];
+  for (let index = 0; index < prefix; index += 1) {
+    pairs.push([index, index]);
+  }
+
+  const rows = a.length - prefix - suffix;
+  const columns = b.length - prefix - suffix;
+  if (rows > 0 && columns > 0 && rows * columns <= MAX_LCS_CELLS) {
+    const width = columns + 1;
+    const table = new Uint32Array((rows + 1) * width);
+    for (let row = rows - 1; row >= 0; row -= 1) {
+      for (let column = columns - 1; column >= 0; column -= 1) {
+        table[row * width + column] =
+          a[prefix + row] === b[prefix + column]
+            ? table[(row + 1) * width + column + 1] + 1
+            : Math.max(table[(row + 1) * width + column], table[row * width + column + 1]);
+      }
+    }
+    let row = 0;
+    let column = 0;
+    while (row < rows && column < columns) {
+      if (a[prefix + row] === b[prefix + column]) {
+        pairs.push([prefix + row, prefix + column]);
+        row += 1;
+        column += 1;
+      } else if (table[(row + 1) * width + column] >= table[row * width + column + 1]) {
+        row += 1;
+      } else {
+        column += 1;
+      }
+    }
+  }
+
+  for (let index = suffix; index > 0; index -= 1) {
+    pairs.push([a.length - index, b.length - index]);
+  }
+  return pairs;
+};
+
+const tokenizeWords = (line: string) => line.match(/\s+|[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) ?? [];
+
+const toSegments = (tokens: string[], matched: Set<number>) =>
+  tokens.reduce<DiffSegment[]>((segments, token, index) => {
+    const changed = !matched.has(index);
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) {
+      last.text += token;
+    } else {
+      segments.push({ text: token, changed });
+    }
+    return segments;
+  }, []);
+
+/** Marks the words that differ between a removed line and the line that replaced it. */
+const diffWords = (removed: DiffLine, added: DiffLine) => {
+  const before = tokenizeWords(removed.text);
+  const after = tokenizeWords(added.text);
+  const pairs = lcsPairs(before, after);
+  const shared = pairs.filter(([index]) => before[index].trim()).length;
+  if (shared === 0) {
+    return;
+  }
+  removed.segments = toSegments(before, new Set(pairs.map(([index]) => index)));
+  added.segments = toSegments(after, new Set(pairs.map(([, index]) => index)));
+};
+
+const diffLineSequence = (previousLines: string[], nextLines: string[]) => {
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  const pushUntil = (oldEnd: number, newEnd: number) => {
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    for (; oldIndex < oldEnd; oldIndex += 1) {
+      removed.push({ type: "removed", text: previousLines[oldIndex], oldLine: oldIndex + 1 });
+    }
+    for (; newIndex < newEnd; newIndex += 1) {
+      added.push({ type: "added", text: nextLines[newIndex], newLine: newIndex + 1 });
+    }
+    removed.slice(0, added.length).forEach((line, index) => diffWords(line, added[index]));
+    lines.push(...removed, ...added);
+  };
+
+  for (const [oldMatch, newMatch] of lcsPairs(previousLines, nextLines)) {
+    pushUntil(oldMatch, newMatch);
+    lines.push({
+      type: "equal",
+      text: previousLines[oldMatch],
+      oldLine: oldMatch + 1,
+      newLine: newMatch + 1
+    });
+    oldIndex += 1;
+    newIndex += 1;
+  }
+  pushUntil(previousLines.length, nextLines.length);
+  return lines;
+};
+
+/**
+ * Line diff of two documents built on a longest common subsequence, grouped
+ * into hunks with `context` unchanged lines around each change.
+ */
+export const diffDocuments = (
+  previous: string,
+  next: string,
+  context = DIFF_CONTEXT_LINES
+): DocumentDiff => {
+  const lines = diffLineSequence(previous.split("\n"), next.split("\n"));
+  const hunks: DiffHunk[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  let current: DiffHunk | null = null;
+  let trailing = 0;
+  const nextChange: number[] = [];
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    nextChange[index] = lines[index].type !== "equal" ? index : nextChange[index + 1] ?? Infinity;
+  }
+
+  lines.forEach((line, index) => {
+    if (line.type !== "equal") {
+      if (!current) {
+        const start = lines.slice(Math.max(0, index - context), index);
+        current = {
+          oldStart: oldCount - start.length + 1,
+          oldLines: start.length,
+          newStart: newCount - start.length + 1,
+          newLines: start.length,
+          lines: [...start]
+        };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+      current.oldLines += line.type === "removed" ? 1 : 0;
+      current.newLines += line.type === "added" ? 1 : 0;
+      trailing = 0;
+    } else if (current) {
+      if (trailing < context || nextChange[index] - index <= context) {
+        current.lines.push(line);
+        current.oldLines += 1;
+        current.newLines += 1;
+        trailing += 1;
+      } else {
+        current = null;
+      }
+    }
+    oldCount += line.type === "added" ? 0 : 1;
+    newCount += line.type === "removed" ? 0 : 1;
+  });
+
+  return {
+    hunks,
+    added: lines.filter((line) => line.type === "added").length,
+    removed: lines.filter((line) => line.type === "removed").length
+  };
+};
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Three-way merge of two edits of a common base. Chunks changed on only one
+ * side take that side; chunks changed differently on both sides are kept
+ * with git-style conflict markers.
+ */
+export const mergeThreeWay = (
+  base: string,
+  ours: string,
+  theirs: string,
+  labels = { ours: "current", theirs: "incoming" }
+): MergeResult => {
+  const baseLines = base.split("\n");
+  const ourLines = ours.split("\n");
+  const theirLines = theirs.split("\n");
+  const ourMatches = new Map(lcsPairs(baseLines, ourLines));
+  const theirMatches = new Map(lcsPairs(baseLines, theirLines));
+  const merged: string[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let ourIndex = 0;
+  let theirIndex = 0;
+
+  while (baseIndex <= baseLines.length) {
+    let stable = baseIndex;
+    while (stable < baseLines.length && !(ourMatches.has(stable) && theirMatches.has(stable))) {
+      stable += 1;
+    }
+    const ourEnd = ourMatches.get(stable) ?? ourLines.length;
+    const theirEnd = theirMatches.get(stable) ?? theirLines.length;
+    const baseChunk = baseLines.slice(baseIndex, stable);
+    const ourChunk = ourLines.slice(ourIndex, ourEnd);
+    const theirChunk = theirLines.slice(theirIndex, theirEnd);
+
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      merged.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      merged.push(...ourChunk);
+    } else {
+      conflicts += 1;
+      merged.push(
+        `<<<<<<< ${labels.ours}`,
+        ...ourChunk,
+        "=======",
+        ...theirChunk,
+        `>>>>>>> ${labels.theirs}`
+      );
+    }
+
+    if (stable === baseLines.length) {
+      break;
+    }
+    merged.push(baseLines[stable]);
+    baseIndex = stable + 1;
+    ourIndex = ourEnd + 1;
+    theirIndex = theirEnd + 1;
+  }
+
+  return { content: merged.join("\n"), conflicts };
+};
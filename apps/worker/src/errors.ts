@@ -0,0 +1,83 @@
+export type StepErrorKind = "transient" | "refusal" | "fatal";
+
+/**
+ * What to do when a step fails: `retry` retries transient errors and then
+ * aborts, `skip` retries transient errors and then continues without the
+ * step, and `abort` stops the run on the first error.
+ */
+export type StepFailurePolicy = "retry" | "skip" | "abort";
+
+export type RetryPolicy = {
+  /** Extra attempts after the first one, for transient errors only. */
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+};
+
+export type StepAttemptFailure = {
+  stepId: string;
+  attempt: number;
+  kind: StepErrorKind;
+  error: string;
+  next: "retry" | "skip" | "abort";
+  retryInMs?: number;
+};
+
+export const STEP_FAILURE_POLICIES: StepFailurePolicy[] = ["retry", "skip", "abort"];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  backoffFactor: 2
+};
+
+const TRANSIENT_PATTERNS = [
+  /rate.?limit/i,
+  /\b(429|529)\b/,
+  /internal server error|bad gateway|service unavailable|gateway timeout/i,
+  /overloaded/i,
+  /time(d)?[ -]?out/i,
+  /\b(ETIMEDOUT|ECONNRESET|ECONNREFUSED|EPIPE|EAI_AGAIN)\b/,
+  /socket hang up/i,
+  /temporarily unavailable/i,
+  /process (exited|crashed|terminated)|exited with code|\bSIG(TERM|KILL|SEGV)\b/i
+];
+
+const REFUSAL_PATTERNS = [
+  /refus(e|ed|al)/i,
+  /\b(can(no|')t|unable to) (help|assist|comply)/i,
+  /content (policy|filter)/i,
+  /safety (system|filter|policy)/i
+];
+
+/** How a reply that declines the task opens, e.g. "I'm sorry, but I can't help with that." */
+const REFUSAL_REPLY_PATTERNS = [
+  /^(I['’]?m sorry|I apologi[sz]e|sorry)\b[^.\n]*\b(can(no|['’])t|unable|won['’]?t|not able)\b/i,
+  /^I (can(no|['’])t|won['’]?t|am unable to|am not able to|must decline to)\b/i
+];
+
+/** Longer replies are treated as work, even when they start with an apology. */
+const MAX_REFUSAL_REPLY_CHARS = 600;
+
+/** Whether a successful reply is a short refusal instead of the requested output. */
+export const isRefusalReply = (text: string) => {
+  const reply = text.trim();
+  return (
+    reply.length <= MAX_REFUSAL_REPLY_CHARS &&
+    REFUSAL_REPLY_PATTERNS.some((pattern) => pattern.test(reply))
+  );
+};
+
+/** Sorts model errors into transient (worth retrying), refusals and everything else. */
+export const classifyStepErrors = (errors: string[]): StepErrorKind => {
+  const text = errors.join("\n");
+  if (TRANSIENT_PATTERNS.some((pattern) => pattern.test(text))) {
+    return "transient";
+  }
+  return REFUSAL_PATTERNS.some((pattern) => pattern.test(text)) ? "refusal" : "fatal";
+};
+
+export const retryDelay = (policy: RetryPolicy, retry: number) =>
+  Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.backoffFactor ** (retry - 1));
@@ -0,0 +1,694 @@
+import path from "node:path";
+import { parseFrontmatter } from "./archetypes.js";
+import type { RunPlan } from "./index.js";
+import { writeZip } from "./zip.js";
+
+export type ExportFormat = "zip" | "html" | "docx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["zip", "html", "docx"];
+
+export type ExportBundle = {
+  /** The request the run was started with. */
+  goal: string;
+  plan: RunPlan;
+  /** ISO timestamp shown on the cover page. */
+  date: string;
+  /** The main artifact first, then its companion docs. */
+  docs: { path: string; content: string }[];
+};
+
+export type ExportedBundle = { fileName: string; contentType: string; data: Buffer };
+
+/** A run of inline text; `doc` links to another file of the bundle, `href` to a URL. */
+type Span = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+  doc?: string;
+};
+
+type ListItem = { level: number; ordered: boolean; spans: Span[] };
+
+type Block =
+  | { kind: "heading"; level: number; spans: Span[] }
+  | { kind: "paragraph"; spans: Span[] }
+  | { kind: "list"; items: ListItem[] }
+  | { kind: "code"; text: string }
+  | { kind: "quote"; blocks: Block[] }
+  | { kind: "table"; rows: Span[][][] }
+  | { kind: "rule" };
+
+/** Maps a link target to a bundle doc path, or null when it points elsewhere. */
+type DocResolver = (target: string) => string | null;
+
+const INLINE_TOKEN = new RegExp(
+  [
+    /\[\[([^\]\n]+?)\]\]/.source,
+    /\[([^\]\n]+)\]\(([^)\n]+)\)/.source,
+    /`([^`\n]+)`/.source,
+    /\*\*([^*\n]+?)\*\*|__([^_\n]+?)__/.source,
+    /\*([^*\n]+?)\*|(?<!\w)_([^_\n]+?)_(?!\w)/.source
+  ].join("|"),
+  "g"
+);
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+/** Citation markers written by runs, e.g. `[[notes.md#L3-L7]]`. */
+const CITATION = /^(.+?\.md)#L(\d+)(?:-L?(\d+))?$/;
+const SOURCES_DOC = "sources.md";
+
+const parseInline = (text: string, resolve: DocResolver, style: Omit<Span, "text"> = {}) => {
+  const spans: Span[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_TOKEN)) {
+    if (match.index > last) {
+      spans.push({ ...style, text: text.slice(last, match.index) });
+    }
+    last = match.index + match[0].length;
+    const [, wiki, label, href, code, strong, strongAlt, em, emAlt] = match;
+    if (wiki) {
+      const citation = CITATION.exec(wiki);
+      const lines = citation ? `L${citation[2]}${citation[3] ? `-L${citation[3]}` : ""}` : "";
+      const doc = resolve(citation ? SOURCES_DOC : wiki);
+      const text = citation ? `${citation[1]} ${lines}` : wiki;
+      spans.push({ ...style, text, ...(doc && { doc }) });
+    } else if (label) {
+      const target = href.trim().replace(/^<|>$/g, "").replace(/\s+"[^"]*"$/, "");
+      const doc = /^[a-z][\w+.-]*:/i.test(target) ? null : resolve(target);
+      const link = doc ? { doc } : /^(https?:|mailto:)/i.test(target) ? { href: target } : {};
+      spans.push(...parseInline(label, resolve, { ...style, ...link }));
+    } else if (code) {
+      spans.push({ ...style, text: code, code: true });
+    } else if (strong ?? strongAlt) {
+      spans.push(...parseInline(strong ?? strongAlt, resolve, { ...style, bold: true }));
+    } else {
+      spans.push(...parseInline(em ?? emAlt, resolve, { ...style, italic: true }));
+    }
+  }
+  if (last < text.length) {
+    spans.push({ ...style, text: text.slice(last) });
+  }
+  return spans;
+};
+
+const splitRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) ||
+  LIST_ITEM.test(line);
+
+/** Parses the markdown subset runs write: headings, lists, tables, quotes, code and emphasis. */
+const parseBlocks = (markdown: string, resolve: DocResolver): Block[] => {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    const fence = FENCE.exec(line);
+    const heading = HEADING.exec(line);
+    if (!line.trim()) {
+      index += 1;
+    } else if (fence) {
+      const end = lines.findIndex((next, at) => at > index && next.trim().startsWith(fence[1]));
+      const close = end < 0 ? lines.length : end;
+      blocks.push({ kind: "code", text: lines.slice(index + 1, close).join("\n") });
+      index = close + 1;
+    } else if (heading) {
+      blocks.push({
+        kind: "heading",
+        level: heading[1].length,
+        spans: parseInline(heading[2], resolve)
+      });
+      index += 1;
+    } else if (RULE.test(line)) {
+      blocks.push({ kind: "rule" });
+      index += 1;
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; index < lines.length && QUOTE.test(lines[index]); index += 1) {
+        quoted.push(lines[index].replace(/^\s*> ?/, ""));
+      }
+      blocks.push({ kind: "quote", blocks: parseBlocks(quoted.join("\n"), resolve) });
+    } else if (line.includes("|") && TABLE_DIVIDER.test(lines[index + 1] ?? "")) {
+      const rows = [splitRow(line)];
+      for (index += 2; index < lines.length && lines[index].includes("|"); index += 1) {
+        rows.push(splitRow(lines[index]));
+      }
+      const width = rows[0].length;
+      blocks.push({
+        kind: "table",
+        rows: rows.map((cells) =>
+          Array.from({ length: width }, (_unused, at) => parseInline(cells[at] ?? "", resolve))
+        )
+      });
+    } else if (LIST_ITEM.test(line)) {
+      const items: (Omit<ListItem, "spans"> & { text: string })[] = [];
+      for (; index < lines.length; index += 1) {
+        const item = LIST_ITEM.exec(lines[index]);
+        const previous = items[items.length - 1];
+        const switchesKind = item && previous && !item[1] && /\d/.test(item[2]) !== items[0].ordered;
+        if (switchesKind) {
+          break;
+        }
+        if (item) {
+          const level = Math.min(Math.floor(item[1].length / 2), previous ? previous.level + 1 : 0);
+          items.push({ level, ordered: /\d/.test(item[2]), text: item[3] });
+        } else if (previous && lines[index].trim() && /^\s/.test(lines[index])) {
+          previous.text += ` ${lines[index].trim()}`;
+        } else if (lines[index].trim() || !LIST_ITEM.test(lines[index + 1] ?? "")) {
+          break;
+        }
+      }
+      blocks.push({
+        kind: "list",
+        items: items.map(({ text, ...item }) => ({ ...item, spans: parseInline(text, resolve) }))
+      });
+    } else {
+      const paragraph: string[] = [];
+      for (; index < lines.length && lines[index].trim(); index += 1) {
+        if (paragraph.length && startsBlock(lines[index])) {
+          break;
+        }
+        paragraph.push(lines[index].trim());
+      }
+      blocks.push({ kind: "paragraph", spans: parseInline(paragraph.join(" "), resolve) });
+    }
+  }
+  return blocks;
+};
+
+const plainText = (spans: Span[]) => spans.map((span) => span.text).join("");
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/\.md$/, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "doc";
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? iso
+    : date.toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        timeZone: "UTC"
+      });
+};
+
+/** Parsed docs with a unique slug each, plus the resolver for links between them. */
+const prepareBundle = (bundle: ExportBundle) => {
+  const slugs = new Set<string>();
+  const docs = bundle.docs.map((doc) => {
+    let slug = slugify(doc.path);
+    for (let suffix = 2; slugs.has(slug); suffix += 1) {
+      slug = `${slugify(doc.path)}-${suffix}`;
+    }
+    slugs.add(slug);
+    return { ...doc, slug };
+  });
+  const decode = (target: string) => {
+    try {
+      return decodeURIComponent(target);
+    } catch {
+      // A bare `%` (e.g. `report%.md`) is not an escape; match the target as written.
+      return target;
+    }
+  };
+  const resolve: DocResolver = (target) => {
+    const clean = decode(target.split("#")[0].replace(/^\.\//, "")).toLowerCase();
+    const match =
+      docs.find((doc) => doc.path.toLowerCase() === clean) ??
+      docs.find((doc) => path.posix.basename(doc.path).toLowerCase() === clean);
+    return clean && match ? match.path : null;
+  };
+  const parsed = docs.map((doc) => ({
+    ...doc,
+    blocks: parseBlocks(parseFrontmatter(doc.content).body, resolve)
+  }));
+  const main = parsed[0];
+  const firstHeading = main?.blocks.find((block) => block.kind === "heading");
+  const title =
+    firstHeading?.kind === "heading"
+      ? plainText(firstHeading.spans)
+      : path.posix.basename(main?.path ?? "Run bundle", ".md");
+  const slugOf = (docPath: string) => docs.find((doc) => doc.path === docPath)?.slug ?? "";
+  return { title, docs: parsed, slugOf };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, (char) =>
+    char === "&" ? "&amp;" : char === "<" ? "&lt;" : char === ">" ? "&gt;" : "&quot;"
+  );
+
+const renderSpansHtml = (spans: Span[], docHref: (docPath: string) => string) =>
+  spans
+    .map((span) => {
+      let html = escapeHtml(span.text);
+      html = span.code ? `<code>${html}</code>` : html;
+      html = span.italic ? `<em>${html}</em>` : html;
+      html = span.bold ? `<strong>${html}</strong>` : html;
+      const href = span.doc ? docHref(span.doc) : span.href;
+      return href ? `<a href="${escapeHtml(href)}">${html}</a>` : html;
+    })
+    .join("");
+
+const renderListHtml = (items: ListItem[], docHref: (docPath: string) => string) => {
+  let html = "";
+  const open: string[] = [];
+  for (const item of items) {
+    while (open.length > item.level + 1) {
+      html += `</li></${open.pop()}>`;
+    }
+    if (open.length === item.level + 1) {
+      html += "</li>";
+    }
+    while (open.length < item.level + 1) {
+      const tag = item.ordered ? "ol" : "ul";
+      open.push(tag);
+      html += `<${tag}>`;
+    }
+    html += `<li>${renderSpansHtml(item.spans, docHref)}`;
+  }
+  while (open.length) {
+    html += `</li></${open.pop()}>`;
+  }
+  return html;
+};
+
+const renderBlocksHtml = (blocks: Block[], docHref: (docPath: string) => string): string =>
+  blocks
+    .map((block) => {
+      if (block.kind === "heading") {
+        return `<h${block.level}>${renderSpansHtml(block.spans, docHref)}</h${block.level}>`;
+      }
+      if (block.kind === "paragraph") {
+        return `<p>${renderSpansHtml(block.spans, docHref)}</p>`;
+      }
+      if (block.kind === "list") {
+        return renderListHtml(block.items, docHref);
+      }
+      if (block.kind === "code") {
+        return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+      }
+      if (block.kind === "quote") {
+        return `<blockquote>${renderBlocksHtml(block.blocks, docHref)}</blockquote>`;
+      }
+      if (block.kind === "table") {
+        const [header, ...rows] = block.rows.map((row) =>
+          row.map((cell) => renderSpansHtml(cell, docHref))
+        );
+        return [
+          "<table><thead><tr>",
+          ...header.map((cell) => `<th>${cell}</th>`),
+          "</tr></thead><tbody>",
+          ...rows.map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join("")}</tr>`),
+          "</tbody></table>"
+        ].join("");
+      }
+      return "<hr>";
+    })
+    .join("\n");
+
+const HTML_STYLE = `
+body { font: 16px/1.6 system-ui, sans-serif; color: #0f172a; max-width: 820px; margin: 0 auto;
+  padding: 40px 24px; }
+.cover { border-bottom: 2px solid #e2e8f0; padding-bottom: 32px; margin-bottom: 40px; }
+.cover .eyebrow { text-transform: uppercase; letter-spacing: 0.08em; color: #64748b;
+  font-size: 12px; }
+.cover dt { font-weight: 600; margin-top: 12px; }
+.cover dd { margin: 4px 0 0; }
+section { border-top: 1px solid #e2e8f0; padding-top: 24px; margin-top: 40px; }
+nav { font-size: 14px; margin-bottom: 24px; }
+a { color: #2563eb; }
+pre { background: #f1f5f9; padding: 12px; border-radius: 6px; overflow-x: auto; }
+code { font-family: ui-monospace, monospace; font-size: 14px; }
+blockquote { border-left: 4px solid #cbd5e1; margin: 0; padding-left: 16px; color: #475569; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #cbd5e1; padding: 6px 10px; text-align: left; vertical-align: top; }
+@media print { section { break-before: page; border: none; } }
+`;
+
+const renderHtmlPage = (title: string, body: string) =>
+  [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    `<body>\n${body}\n</body>`,
+    "</html>",
+    ""
+  ].join("\n");
+
+const renderCoverHtml = (
+  bundle: ExportBundle,
+  prepared: ReturnType<typeof prepareBundle>,
+  docHref: (docPath: string) => string
+) => {
+  const interpreted = bundle.plan.interpretedGoal.trim();
+  return [
+    '<header class="cover" id="cover">',
+    '<p class="eyebrow">Run bundle</p>',
+    `<h1>${escapeHtml(prepared.title)}</h1>`,
+    "<dl>",
+    `<dt>Goal</dt><dd>${escapeHtml(bundle.goal)}</dd>`,
+    interpreted && interpreted !== bundle.goal.trim()
+      ? `<dt>Interpreted goal</dt><dd>${escapeHtml(interpreted)}</dd>`
+      : "",
+    `<dt>Date</dt><dd>${escapeHtml(formatDate(bundle.date))}</dd>`,
+    "</dl>",
+    "<h2>Plan</h2>",
+    "<ol>",
+    ...bundle.plan.steps.map(
+      (step) =>
+        `<li><strong>${escapeHtml(step.title)}</strong> (${escapeHtml(step.agent)})` +
+        (step.description ? `<br>${escapeHtml(step.description)}` : "") +
+        "</li>"
+    ),
+    "</ol>",
+    "<h2>Contents</h2>",
+    "<ul>",
+    ...prepared.docs.map(
+      (doc) => `<li><a href="${escapeHtml(docHref(doc.path))}">${escapeHtml(doc.path)}</a></li>`
+    ),
+    "</ul>",
+    "</header>"
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+/** One self-contained page: the cover followed by every doc, linked by in-page anchors. */
+const exportHtml = (bundle: ExportBundle, prepared: ReturnType<typeof prepareBundle>) => {
+  const docHref = (docPath: string) => `#doc-${prepared.slugOf(docPath)}`;
+  const sections = prepared.docs.map(
+    (doc) => `<section id="doc-${doc.slug}">\n${renderBlocksHtml(doc.blocks, docHref)}\n</section>`
+  );
+  return renderHtmlPage(
+    prepared.title,
+    [renderCoverHtml(bundle, prepared, docHref), ...sections].join("\n")
+  );
+};
+
+/** A cover `index.html`, one linked page per doc and the original markdown files. */
+const exportZip = (bundle: ExportBundle, prepared: ReturnType<typeof prepareBundle>) => {
+  const docHref = (docPath: string) => `${prepared.slugOf(docPath)}.html`;
+  const nav = '<nav><a href="index.html">Cover</a></nav>';
+  return writeZip([
+    {
+      name: "index.html",
+      data: Buffer.from(
+        renderHtmlPage(prepared.title, renderCoverHtml(bundle, prepared, docHref)),
+        "utf8"
+      )
+    },
+    ...prepared.docs.map((doc) => ({
+      name: `${doc.slug}.html`,
+      data: Buffer.from(
+        renderHtmlPage(
+          `${path.posix.basename(doc.path, ".md")} · ${prepared.title}`,
+          `${nav}\n${renderBlocksHtml(doc.blocks, docHref)}`
+        ),
+        "utf8"
+      )
+    })),
+    ...prepared.docs.map((doc) => ({
+      name: `markdown/${doc.path}`,
+      data: Buffer.from(doc.content, "utf8")
+    }))
+  ]);
+};
+
+const escapeXml = (text: string) =>
+  escapeHtml(text).replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+const WORD_NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${WORD_NAMESPACES}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/>
+<w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276"
+w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>
+<w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="52"/></w:rPr></w:style>
+${[32, 26, 24, 22, 22, 22]
+  .map(
+    (size, index) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${
+        index + 1
+      }"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/>` +
+      `<w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>` +
+      `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`
+  )
+  .join("\n")}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/>
+<w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/><w:color w:val="475569"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>
+<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/></w:pPr>
+<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>
+<w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>
+</w:styles>`;
+
+/** Renders bundle docs as WordprocessingML, collecting external links as relationships. */
+const createDocxWriter = (bookmarkOf: (docPath: string) => string) => {
+  const links: string[] = [];
+
+  const runs = (spans: Span[]) =>
+    spans
+      .map((span) => {
+        const linked = Boolean(span.doc || span.href);
+        const props = [
+          linked ? '<w:rStyle w:val="Hyperlink"/>' : "",
+          span.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : "",
+          span.bold ? "<w:b/>" : "",
+          span.italic ? "<w:i/>" : ""
+        ].join("");
+        const run =
+          `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}` +
+          `<w:t xml:space="preserve">${escapeXml(span.text)}</w:t></w:r>`;
+        if (span.doc) {
+          return `<w:hyperlink w:anchor="${bookmarkOf(span.doc)}">${run}</w:hyperlink>`;
+        }
+        if (span.href) {
+          links.push(span.href);
+          return `<w:hyperlink r:id="rIdLink${links.length}">${run}</w:hyperlink>`;
+        }
+        return run;
+      })
+      .join("");
+
+  const paragraph = (content: string, props = "") =>
+    `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${content}</w:p>`;
+
+  const styled = (style?: string) => (style ? `<w:pStyle w:val="${style}"/>` : "");
+
+  const blocks = (items: Block[], style?: string): string =>
+    items
+      .map((block) => {
+        if (block.kind === "heading") {
+          return paragraph(runs(block.spans), styled(`Heading${block.level}`));
+        }
+        if (block.kind === "paragraph") {
+          return paragraph(runs(block.spans), styled(style));
+        }
+        if (block.kind === "list") {
+          const counters: number[] = [];
+          return block.items
+            .map((item) => {
+              counters.length = item.level + 1;
+              counters[item.level] = (counters[item.level] ?? 0) + 1;
+              const marker = item.ordered ? `${counters[item.level]}.` : "•";
+              const indent = 360 * (item.level + 1);
+              return paragraph(
+                runs([{ text: `${marker}\t` }, ...item.spans]),
+                `${styled(style)}<w:ind w:left="${indent}" w:hanging="360"/>`
+              );
+            })
+            .join("");
+        }
+        if (block.kind === "code") {
+          const lines = block.text
+            .split("\n")
+            .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+            .join("<w:br/>");
+          return paragraph(`<w:r>${lines}</w:r>`, styled("Code"));
+        }
+        if (block.kind === "quote") {
+          return blocks(block.blocks, "Quote");
+        }
+        if (block.kind === "table") {
+          const width = block.rows[0]?.length ?? 1;
+          const border = (side: string) =>
+            `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`;
+          const borders = ["top", "left", "bottom", "right", "insideH", "insideV"]
+            .map(border)
+            .join("");
+          const rows = block.rows.map(
+            (row, rowIndex) =>
+              `<w:tr>${row
+                .map((cell) =>
+                  `<w:tc>${paragraph(
+                    runs(rowIndex === 0 ? cell.map((span) => ({ ...span, bold: true })) : cell)
+                  )}</w:tc>`
+                )
+                .join("")}</w:tr>`
+          );
+          const grid = `<w:gridCol w:w="${Math.floor(9360 / width)}"/>`.repeat(width);
+          return (
+            `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${borders}` +
+            `</w:tblBorders></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${rows.join("")}</w:tbl>` +
+            paragraph("")
+          );
+        }
+        return paragraph(
+          "",
+          '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>'
+        );
+      })
+      .join("\n");
+
+  return { runs, paragraph, blocks, links };
+};
+
+/** A Word document: the cover page, then each doc on a new page behind a bookmark. */
+const exportDocx = (bundle: ExportBundle, prepared: ReturnType<typeof prepareBundle>) => {
+  const bookmarkOf = (docPath: string) =>
+    `doc_${prepared.slugOf(docPath).replace(/-/g, "_")}`.slice(0, 40);
+  const writer = createDocxWriter(bookmarkOf);
+  const { runs, paragraph } = writer;
+  const labelled = (label: string, value: string) =>
+    paragraph(runs([{ text: `${label}: `, bold: true }, { text: value }]));
+  const interpreted = bundle.plan.interpretedGoal.trim();
+
+  const cover = [
+    paragraph(runs([{ text: prepared.title }]), '<w:pStyle w:val="Title"/>'),
+    labelled("Goal", bundle.goal),
+    interpreted && interpreted !== bundle.goal.trim()
+      ? labelled("Interpreted goal", interpreted)
+      : "",
+    labelled("Date", formatDate(bundle.date)),
+    writer.blocks([
+      { kind: "heading", level: 1, spans: [{ text: "Plan" }] },
+      {
+        kind: "list",
+        items: bundle.plan.steps.map((step) => ({
+          level: 0,
+          ordered: true,
+          spans: [
+            { text: step.title, bold: true },
+            { text: ` (${step.agent})${step.description ? ` ${step.description}` : ""}` }
+          ]
+        }))
+      },
+      { kind: "heading", level: 1, spans: [{ text: "Contents" }] },
+      {
+        kind: "list",
+        items: prepared.docs.map((doc) => ({
+          level: 0,
+          ordered: false,
+          spans: [{ text: doc.path, doc: doc.path }]
+        }))
+      }
+    ])
+  ];
+  const sections = prepared.docs.map((doc, index) => {
+    const bookmark =
+      `<w:bookmarkStart w:id="${index}" w:name="${bookmarkOf(doc.path)}"/>` +
+      `<w:bookmarkEnd w:id="${index}"/>`;
+    return `${paragraph(`<w:r><w:br w:type="page"/></w:r>${bookmark}`)}\n${writer.blocks(
+      doc.blocks
+    )}`;
+  });
+  const document =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:document ${WORD_NAMESPACES}>` +
+    `<w:body>\n${[...cover, ...sections].filter(Boolean).join("\n")}\n` +
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" ' +
+    'w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+    "</w:body></w:document>";
+
+  const relationship = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+  const documentRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    `<Relationship Id="rIdStyles" Type="${relationship}/styles" Target="styles.xml"/>`,
+    ...writer.links.map(
+      (href, index) =>
+        `<Relationship Id="rIdLink${index + 1}" Type="${relationship}/hyperlink" ` +
+        `Target="${escapeXml(href)}" TargetMode="External"/>`
+    ),
+    "</Relationships>"
+  ].join("\n");
+  const packageRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    `<Relationship Id="rIdDocument" Type="${relationship}/officeDocument" ` +
+      'Target="word/document.xml"/>',
+    "</Relationships>"
+  ].join("\n");
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ' +
+      'ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/word/document.xml" ContentType="application/' +
+      'vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+    '<Override PartName="/word/styles.xml" ContentType="application/' +
+      'vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+    "</Types>"
+  ].join("\n");
+
+  return writeZip([
+    { name: "[Content_Types].xml", data: Buffer.from(contentTypes, "utf8") },
+    { name: "_rels/.rels", data: Buffer.from(packageRels, "utf8") },
+    { name: "word/document.xml", data: Buffer.from(document, "utf8") },
+    { name: "word/styles.xml", data: Buffer.from(DOCX_STYLES, "utf8") },
+    { name: "word/_rels/document.xml.rels", data: Buffer.from(documentRels, "utf8") }
+  ]);
+};
+
+/** Packages a run's artifacts with a cover page (goal, plan, date) as one downloadable file. */
+export const exportBundle = (format: ExportFormat, bundle: ExportBundle): ExportedBundle => {
+  const prepared = prepareBundle(bundle);
+  const baseName = `${slugify(prepared.title)}-bundle`;
+  if (format === "html") {
+    return {
+      fileName: `${baseName}.html`,
+      contentType: "text/html; charset=utf-8",
+      data: Buffer.from(exportHtml(bundle, prepared), "utf8")
+    };
+  }
+  if (format === "docx") {
+    return {
+      fileName: `${baseName}.docx`,
+      contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      data: exportDocx(bundle, prepared)
+    };
+  }
+  return {
+    fileName: `${baseName}.zip`,
+    contentType: "application/zip",
+    data: exportZip(bundle, prepared)
+  };
+};
@@ -0,0 +1,696 @@
+import path from "node:path";
+import { Worker } from "node:worker_threads";
+import { parseFrontmatter } from "./archetypes.js";
+import { extractPdfText } from "./pdf.js";
+import { readZip } from "./zip.js";
+
+export type ImportFormat = "pdf" | "docx" | "html" | "csv";
+
+/** Where an imported doc came from, stored as frontmatter at the top of the converted doc. */
+export type DocProvenance = {
+  /** The original file, relative to the notebook's docs folder. */
+  source: string;
+  format: ImportFormat;
+  importedAt: string;
+  /** Page count of PDFs; each page starts with a `## Page N` heading. */
+  pages?: number;
+};
+
+export type ConvertedDoc = {
+  markdown: string;
+  pages?: number;
+  warnings: string[];
+};
+
+const IMPORT_EXTENSIONS: Record<string, ImportFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".html": "html",
+  ".htm": "html",
+  ".csv": "csv"
+};
+
+const PAGE_HEADING = /^## Page (\d+)$/;
+
+export const importFormatOf = (fileName: string): ImportFormat | null =>
+  IMPORT_EXTENSIONS[path.extname(fileName).toLowerCase()] ?? null;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€"
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code =
+        name[1] === "x" || name[1] === "X"
+          ? Number.parseInt(name.slice(2), 16)
+          : Number.parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+/** Wraps text in emphasis markers, keeping surrounding spaces outside them. */
+const emphasize = (text: string, marker: string) => {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+  return match && match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+};
+
+const toTable = (rows: string[][]) => {
+  const width = Math.max(...rows.map((row) => row.length));
+  const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_unused, index) => cell(row[index] ?? "")).join(" | ")} |`;
+  return [line(rows[0]), line(Array(width).fill("---")), ...rows.slice(1).map(line)].join("\n");
+};
+
+type HtmlElement = { tag: string; attrs: Map<string, string>; children: HtmlNode[] };
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(
+  "area base br col embed hr img input link meta param source track wbr".split(" ")
+);
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+const SKIPPED_TAGS = new Set(
+  "head script style noscript template svg canvas iframe select button title".split(" ")
+);
+const BLOCK_TAGS = new Set(
+  (
+    "address article aside blockquote body dd details div dl dt fieldset figcaption figure " +
+    "footer form h1 h2 h3 h4 h5 h6 header hr html li main nav ol p pre section summary table " +
+    "tbody td tfoot th thead tr ul"
+  ).split(" ")
+);
+/** Opening one of these closes an open `<p>`, as browsers do. */
+const CLOSES_PARAGRAPH = new Set(
+  (
+    "address article aside blockquote div dl fieldset footer form h1 h2 h3 h4 h5 h6 header hr " +
+    "main nav ol p pre section table ul"
+  ).split(" ")
+);
+/** Tags that close an open sibling of the listed kinds, stopping at the given container. */
+const IMPLIED_ENDS: Record<string, { closes: string[]; scope: string[] }> = {
+  li: { closes: ["li"], scope: ["ul", "ol"] },
+  dt: { closes: ["dt", "dd"], scope: ["dl"] },
+  dd: { closes: ["dt", "dd"], scope: ["dl"] },
+  tr: { closes: ["tr", "td", "th"], scope: ["table", "thead", "tbody", "tfoot"] },
+  td: { closes: ["td", "th"], scope: ["tr", "table"] },
+  th: { closes: ["td", "th"], scope: ["tr", "table"] }
+};
+
+const HTML_ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+/** A comment, doctype or processing instruction, or a tag with its end slash and attributes. */
+const HTML_TOKEN = new RegExp(
+  `<!--[\\s\\S]*?-->|<![^>]*>|<\\?[^>]*>|<(/?)([a-zA-Z][\\w:-]*)` +
+    `((?:\\s+[^\\s"'>/=]+(?:\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s"'>]+))?)*)\\s*(/?)>`,
+  "g"
+);
+
+/**
+ * Builds a forgiving element tree: unknown end tags are ignored and unclosed
+ * tags end with their parent.
+ */
+const parseHtml = (html: string) => {
+  const root: HtmlElement = { tag: "#root", attrs: new Map(), children: [] };
+  const stack = [root];
+  const top = () => stack[stack.length - 1];
+  /** Pops the innermost open match, or the outermost one below the scope for implied ends. */
+  const closeTo = (tags: string[], scope: string[], outermost = false) => {
+    let found = -1;
+    for (let index = stack.length - 1; index > 0 && !scope.includes(stack[index].tag); index -= 1) {
+      if (tags.includes(stack[index].tag)) {
+        found = index;
+        if (!outermost) {
+          break;
+        }
+      }
+    }
+    if (found > 0) {
+      stack.length = found;
+    }
+  };
+
+  let last = 0;
+  HTML_TOKEN.lastIndex = 0;
+  for (let match = HTML_TOKEN.exec(html); match; match = HTML_TOKEN.exec(html)) {
+    if (match.index > last) {
+      top().children.push(html.slice(last, match.index));
+    }
+    last = HTML_TOKEN.lastIndex;
+    const [, closing, rawTag, rawAttrs, selfClosing] = match;
+    if (!rawTag) {
+      continue;
+    }
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      closeTo([tag], []);
+      continue;
+    }
+    if (CLOSES_PARAGRAPH.has(tag)) {
+      closeTo(["p"], ["table", "li", "blockquote", "div"]);
+    }
+    const implied = IMPLIED_ENDS[tag];
+    if (implied) {
+      closeTo(implied.closes, implied.scope, true);
+    }
+    const attrs = new Map<string, string>();
+    for (const attr of (rawAttrs ?? "").matchAll(HTML_ATTRIBUTE)) {
+      attrs.set(attr[1].toLowerCase(), decodeEntities(attr[2] ?? attr[3] ?? attr[4] ?? ""));
+    }
+    const element: HtmlElement = { tag, attrs, children: [] };
+    top().children.push(element);
+    if (RAW_TEXT_TAGS.has(tag)) {
+      // Searched from `last` only, so a document with many such tags stays linear.
+      const endTag = new RegExp(`</${tag}`, "gi");
+      endTag.lastIndex = last;
+      const end = endTag.exec(html)?.index ?? -1;
+      element.children.push(html.slice(last, end < 0 ? html.length : end));
+      last = end < 0 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      HTML_TOKEN.lastIndex = last;
+    } else if (!VOID_TAGS.has(tag) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+  if (last < html.length) {
+    top().children.push(html.slice(last));
+  }
+  return root;
+};
+
+const textContent = (node: HtmlNode): string =>
+  typeof node === "string" ? decodeEntities(node) : node.children.map(textContent).join("");
+
+/** Web and mail links, and relative links to other pages; not in-page anchors or `javascript:`. */
+const isLinkHref = (href: string) =>
+  /^(https?:|mailto:)/i.test(href) || (/^[^#]/.test(href) && !/^[a-z][\w+.-]*:/i.test(href));
+
+/** Points relative links at the page's absolute `<base href>`; without one they stay relative. */
+const resolveLinks = (node: HtmlElement, base: string) => {
+  for (const child of node.children) {
+    if (typeof child === "string") {
+      continue;
+    }
+    const href = child.tag === "a" ? child.attrs.get("href")?.trim() : undefined;
+    if (href && isLinkHref(href)) {
+      try {
+        child.attrs.set("href", new URL(href, base).href);
+      } catch {
+        // Left as written when it does not resolve.
+      }
+    }
+    resolveLinks(child, base);
+  }
+};
+
+const renderInline = (nodes: HtmlNode[]): string =>
+  nodes
+    .map((node) => {
+      if (typeof node === "string") {
+        return decodeEntities(node.replace(/\s+/g, " ")).replace(/ /g, " ");
+      }
+      const { tag, attrs, children } = node;
+      if (SKIPPED_TAGS.has(tag)) {
+        return "";
+      }
+      if (tag === "br") {
+        return "\n";
+      }
+      if (tag === "img") {
+        const alt = attrs.get("alt")?.trim();
+        const src = attrs.get("src") ?? "";
+        return alt && /^https?:/i.test(src) ? `![${alt}](${src})` : (alt ?? "");
+      }
+      const inner = renderInline(children);
+      if (tag === "strong" || tag === "b") {
+        return emphasize(inner, "**");
+      }
+      if (tag === "em" || tag === "i") {
+        return emphasize(inner, "*");
+      }
+      if (tag === "s" || tag === "del" || tag === "strike") {
+        return emphasize(inner, "~~");
+      }
+      if (tag === "code" || tag === "kbd" || tag === "samp") {
+        return inner.trim() ? `\`${inner.trim()}\`` : inner;
+      }
+      const href = attrs.get("href")?.trim() ?? "";
+      if (tag === "a" && inner.trim() && isLinkHref(href)) {
+        return `[${inner.trim()}](${href.replace(/[\s()]/g, encodeURIComponent)})`;
+      }
+      return inner;
+    })
+    .join("");
+
+const cleanInline = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.replace(/ +/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+
+const indent = (text: string, prefix: string) =>
+  text
+    .split("\n")
+    .map((line, index) => (index === 0 || !line ? line : `${" ".repeat(prefix.length)}${line}`))
+    .join("\n")
+    .replace(/^/, prefix);
+
+const renderBlocks = (nodes: HtmlNode[]): string[] => {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+  const flush = () => {
+    const text = cleanInline(renderInline(inline));
+    if (text) {
+      blocks.push(text);
+    }
+    inline = [];
+  };
+  for (const node of nodes) {
+    if (typeof node === "string" || !BLOCK_TAGS.has(node.tag)) {
+      inline.push(node);
+    } else {
+      flush();
+      blocks.push(...renderBlock(node));
+    }
+  }
+  flush();
+  return blocks;
+};
+
+const findRows = (node: HtmlElement): HtmlElement[] =>
+  node.children.flatMap((child) => {
+    if (typeof child === "string") {
+      return [];
+    }
+    if (child.tag === "tr") {
+      return [child];
+    }
+    return ["thead", "tbody", "tfoot"].includes(child.tag) ? findRows(child) : [];
+  });
+
+const renderBlock = (node: HtmlElement): string[] => {
+  const { tag, children } = node;
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    const text = cleanInline(renderInline(children)).replace(/\n/g, " ");
+    return text ? [`${"#".repeat(Number(heading[1]))} ${text}`] : [];
+  }
+  if (tag === "hr") {
+    return ["---"];
+  }
+  if (tag === "pre") {
+    const code = textContent(node).replace(/^\n|\n$/g, "");
+    return code.trim() ? [`\`\`\`\n${code}\n\`\`\``] : [];
+  }
+  if (tag === "dt") {
+    const text = cleanInline(renderInline(children));
+    return text ? [emphasize(text, "**")] : [];
+  }
+  if (tag === "blockquote") {
+    const quoted = renderBlocks(children).join("\n\n");
+    return quoted ? [quoted.replace(/^/gm, "> ").replace(/^> $/gm, ">")] : [];
+  }
+  if (tag === "ul" || tag === "ol") {
+    const start = Number.parseInt(node.attrs.get("start") ?? "1", 10) || 1;
+    const items = children
+      .filter((child): child is HtmlElement => typeof child !== "string")
+      .map((child, index) => {
+        const marker = tag === "ol" ? `${start + index}. ` : "- ";
+        const body = renderBlocks(child.tag === "li" ? child.children : [child]).join("\n");
+        return body ? indent(body, marker) : "";
+      })
+      .filter(Boolean);
+    return items.length ? [items.join("\n")] : [];
+  }
+  if (tag === "table") {
+    const rows = findRows(node).map((row) =>
+      row.children
+        .filter((cell): cell is HtmlElement => typeof cell !== "string")
+        .filter((cell) => cell.tag === "td" || cell.tag === "th")
+        .map((cell) => cleanInline(renderInline(cell.children)))
+    );
+    return rows.some((row) => row.length > 0) ? [toTable(rows.filter((row) => row.length))] : [];
+  }
+  return renderBlocks(children);
+};
+
+const findElement = (node: HtmlElement, tag: string): HtmlElement | undefined => {
+  for (const child of node.children) {
+    if (typeof child !== "string") {
+      const found = child.tag === tag ? child : findElement(child, tag);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+};
+
+const convertHtml = (data: Buffer): ConvertedDoc => {
+  const root = parseHtml(data.toString("utf8"));
+  const base = findElement(root, "base")?.attrs.get("href")?.trim();
+  if (base && /^https?:/i.test(base)) {
+    resolveLinks(root, base);
+  }
+  const blocks = renderBlocks(root.children);
+  const title = findElement(root, "title");
+  const titleText = title ? textContent(title).replace(/\s+/g, " ").trim() : "";
+  if (titleText && !blocks.some((block) => block.startsWith("# "))) {
+    blocks.unshift(`# ${titleText}`);
+  }
+  return { markdown: blocks.join("\n\n"), warnings: [] };
+};
+
+type DocxPart = { text: string; bold: boolean; italic: boolean; href?: string };
+
+const XML_TOKEN = /<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+const xmlAttr = (attrs: string, name: string) =>
+  new RegExp(`${name}="([^"]*)"`).exec(attrs)?.[1];
+
+/** Converts a Word document's paragraphs, headings, lists, tables, emphasis and links. */
+const convertDocx = (data: Buffer): ConvertedDoc => {
+  const zip = readZip(data);
+  const xml = zip.read("word/document.xml")?.toString("utf8");
+  if (!xml) {
+    throw new Error("File is not a Word document.");
+  }
+  const links = new Map<string, string>();
+  const rels = zip.read("word/_rels/document.xml.rels")?.toString("utf8") ?? "";
+  for (const [relationship] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = xmlAttr(relationship, "Id");
+    const target = xmlAttr(relationship, "Target");
+    if (id && target && /^(https?:|mailto:)/i.test(target)) {
+      links.set(id, decodeEntities(target));
+    }
+  }
+
+  const blocks: { text: string; list: boolean }[] = [];
+  const tables: { rows: string[][]; row: string[]; cell: string[] }[] = [];
+  let paragraph: { style: string; level: number | null; parts: DocxPart[] } | null = null;
+  let run: DocxPart | null = null;
+  let href: string | undefined;
+  let inText = false;
+
+  const finishParagraph = () => {
+    if (!paragraph) {
+      return;
+    }
+    const merged: DocxPart[] = [];
+    for (const part of paragraph.parts) {
+      const previous = merged[merged.length - 1];
+      if (
+        previous &&
+        previous.bold === part.bold &&
+        previous.italic === part.italic &&
+        previous.href === part.href
+      ) {
+        previous.text += part.text;
+      } else {
+        merged.push({ ...part });
+      }
+    }
+    const text = merged
+      .map((part) => {
+        const italic = part.italic ? emphasize(part.text, "*") : part.text;
+        const styled = part.bold ? emphasize(italic, "**") : italic;
+        return part.href && part.text.trim() ? `[${styled.trim()}](${part.href})` : styled;
+      })
+      .join("")
+      .replace(/\s+/g, " ")
+      .trim();
+    const table = tables[tables.length - 1];
+    const { style, level } = paragraph;
+    const heading = /^heading\s*([1-6])$/i.exec(style)?.[1];
+    paragraph = null;
+    if (!text) {
+      return;
+    }
+    if (table) {
+      table.cell.push(text);
+    } else if (heading || /^title$/i.test(style)) {
+      blocks.push({ text: `${"#".repeat(Number(heading ?? 1))} ${text}`, list: false });
+    } else if (level !== null) {
+      blocks.push({ text: `${"  ".repeat(level)}- ${text}`, list: true });
+    } else {
+      blocks.push({ text, list: false });
+    }
+  };
+
+  XML_TOKEN.lastIndex = 0;
+  for (let match = XML_TOKEN.exec(xml); match; match = XML_TOKEN.exec(xml)) {
+    const [, closing, tag, attrs, selfClosing, text] = match;
+    if (text !== undefined) {
+      if (inText && run) {
+        run.text += decodeEntities(text);
+      }
+      continue;
+    }
+    const value = xmlAttr(attrs, "w:val");
+    if (closing) {
+      if (tag === "w:t") {
+        inText = false;
+      } else if (tag === "w:r" && run) {
+        paragraph?.parts.push(run);
+        run = null;
+      } else if (tag === "w:hyperlink") {
+        href = undefined;
+      } else if (tag === "w:p") {
+        finishParagraph();
+      } else if (tag === "w:tc" && tables.length) {
+        const table = tables[tables.length - 1];
+        table.row.push(table.cell.join(" "));
+        table.cell = [];
+      } else if (tag === "w:tr" && tables.length) {
+        const table = tables[tables.length - 1];
+        table.rows.push(table.row);
+        table.row = [];
+      } else if (tag === "w:tbl") {
+        const rows = tables.pop()?.rows ?? [];
+        const outer = tables[tables.length - 1];
+        if (rows.length && outer) {
+          outer.cell.push(rows.map((row) => row.join(" ")).join(" "));
+        } else if (rows.length) {
+          blocks.push({ text: toTable(rows), list: false });
+        }
+      }
+      continue;
+    }
+    if (tag === "w:p") {
+      paragraph = { style: "", level: null, parts: [] };
+      if (selfClosing) {
+        finishParagraph();
+      }
+    } else if (tag === "w:pStyle" && paragraph) {
+      paragraph.style = value ?? "";
+    } else if (tag === "w:numPr" && paragraph) {
+      paragraph.level ??= 0;
+    } else if (tag === "w:ilvl" && paragraph) {
+      paragraph.level = Number(value ?? 0) || 0;
+    } else if (tag === "w:r") {
+      run = { text: "", bold: false, italic: false, href };
+    } else if ((tag === "w:b" || tag === "w:i") && run) {
+      const on = value !== "0" && value !== "false";
+      run[tag === "w:b" ? "bold" : "italic"] = on;
+    } else if (tag === "w:t" && !selfClosing) {
+      inText = true;
+    } else if ((tag === "w:tab" || tag === "w:br") && run) {
+      run.text += " ";
+    } else if (tag === "w:hyperlink") {
+      href = links.get(xmlAttr(attrs, "r:id") ?? "");
+    } else if (tag === "w:tbl") {
+      tables.push({ rows: [], row: [], cell: [] });
+    }
+  }
+
+  const markdown = blocks
+    .map((block, index) =>
+      index > 0 && block.list && blocks[index - 1].list ? `\n${block.text}` : `\n\n${block.text}`
+    )
+    .join("")
+    .trim();
+  return { markdown, warnings: [] };
+};
+
+/** Splits CSV text into rows, honouring quoted fields; the delimiter is guessed from the header. */
+const parseCsv = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const convertCsv = (data: Buffer): ConvertedDoc => {
+  const rows = parseCsv(data.toString("utf8").replace(/^﻿/, ""));
+  if (rows.length === 0) {
+    throw new Error("The CSV file has no rows.");
+  }
+  return { markdown: toTable(rows), warnings: [] };
+};
+
+const convertPdf = (data: Buffer): ConvertedDoc => {
+  const { pages, unreadablePages } = extractPdfText(data);
+  if (pages.every((lines) => lines.length === 0)) {
+    throw new Error("No text found in the PDF. Scanned pages need OCR before importing.");
+  }
+  const markdown = pages
+    .map((lines, index) => [`## Page ${index + 1}`, "", ...lines].join("\n"))
+    .join("\n\n");
+  const warnings = unreadablePages.length
+    ? [`Some text on pages ${unreadablePages.join(", ")} uses fonts that could not be decoded.`]
+    : [];
+  return { markdown, pages: pages.length, warnings };
+};
+
+/** Converts an uploaded file to markdown locally; throws when the file cannot be read. */
+export const convertToMarkdown = (format: ImportFormat, data: Buffer): ConvertedDoc => {
+  if (format === "pdf") {
+    return convertPdf(data);
+  }
+  if (format === "docx") {
+    return convertDocx(data);
+  }
+  return format === "html" ? convertHtml(data) : convertCsv(data);
+};
+
+/** How long one conversion may run before its thread is stopped. */
+const CONVERT_TIMEOUT_MS = 60_000;
+/** Heap of a conversion thread: room for a 25 MB upload and its inflated parts. */
+const CONVERT_HEAP_MB = 512;
+
+/**
+ * Runs `convertToMarkdown` in a worker thread, so large files do not block the
+ * caller. The thread has a capped heap and is stopped after `timeoutMs`.
+ */
+export const convertInThread = (
+  format: ImportFormat,
+  data: Buffer,
+  { timeoutMs = CONVERT_TIMEOUT_MS } = {}
+) =>
+  new Promise<ConvertedDoc>((resolve, reject) => {
+    const thread = new Worker(new URL("./convertThread.js", import.meta.url), {
+      workerData: { format, data },
+      resourceLimits: { maxOldGenerationSizeMb: CONVERT_HEAP_MB }
+    });
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      // The error listener stays, so an error after settling is still handled.
+      thread.removeAllListeners("message").removeAllListeners("exit");
+      finish();
+    };
+    const timer = setTimeout(
+      () =>
+        settle(() => {
+          void thread.terminate();
+          reject(new Error(`Conversion took longer than ${timeoutMs / 1000} s and was stopped.`));
+        }),
+      timeoutMs
+    );
+    thread.once("message", (converted: ConvertedDoc) => settle(() => resolve(converted)));
+    thread.on("error", (error) => settle(() => reject(error)));
+    thread.once("exit", (code) =>
+      settle(() => reject(new Error(`The converter stopped with code ${code}.`)))
+    );
+  });
+
+export const formatProvenance = (provenance: DocProvenance) =>
+  [
+    "---",
+    `source: ${provenance.source.replace(/[\r\n]+/g, " ")}`,
+    `format: ${provenance.format}`,
+    `imported: ${provenance.importedAt}`,
+    ...(provenance.pages ? [`pages: ${provenance.pages}`] : []),
+    "---",
+    ""
+  ].join("\n");
+
+/** Reads an imported doc's provenance frontmatter; docs written in the notebook have none. */
+export const readProvenance = (content: string): DocProvenance | null => {
+  const { fields } = parseFrontmatter(content);
+  const source = fields.get("source");
+  const format = Object.values(IMPORT_EXTENSIONS).find((item) => item === fields.get("format"));
+  if (!source || !format) {
+    return null;
+  }
+  const pages = Number.parseInt(fields.get("pages") ?? "", 10);
+  return {
+    source,
+    format,
+    importedAt: fields.get("imported") ?? "",
+    ...(pages > 0 ? { pages } : {})
+  };
+};
+
+/** The PDF page a 1-based line of an imported doc falls on, from its `## Page N` headings. */
+export const pageAtLine = (content: string, line: number) => {
+  let page: number | undefined;
+  content
+    .split("\n")
+    .slice(0, line)
+    .forEach((text) => {
+      const match = PAGE_HEADING.exec(text);
+      page = match ? Number(match[1]) : page;
+    });
+  return page;
+};
@@ -1,10 +1,83 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
-import { execFileSync } from "node:child_process";
-import { unstable_v2_prompt } from "@anthropic-ai/claude-agent-sdk";
-
-export type PlanAgentRole = "Researcher" | "Writer" | "Critic" | "Organizer";
+import {
+  createClaudeProvider,
+  type ModelProvider,
+  type ModelRequest,
+  type ModelResponse
+} from "./providers.js";
+import { addUsage, emptyUsage, estimateTokens, totalTokens, type TokenUsage } from "./usage.js";
+import { assertAcyclic, findDependents, resolveDependencies } from "./stepGraph.js";
+import { buildStepContext, type StepContextEntry } from "./stepContext.js";
+import { buildSourcesContent, resolveCitations, type Citation } from "./citations.js";
+import { createVersionStore, hashContent, type VersionStore } from "./versions.js";
+import { mergeThreeWay } from "./diff.js";
+import { withWorkspaceLock } from "./locks.js";
+import {
+  BUILT_IN_ARCHETYPES,
+  findArchetype,
+  loadAgentArchetypes,
+  type AgentArchetype
+} from "./archetypes.js";
+import {
+  MAX_STEP_QUESTIONS,
+  QUESTION_INSTRUCTION,
+  formatClarifications,
+  parseBlockingQuestion,
+  type BlockingQuestion,
+  type Clarification
+} from "./clarifications.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  STEP_FAILURE_POLICIES,
+  classifyStepErrors,
+  isRefusalReply,
+  retryDelay,
+  type RetryPolicy,
+  type StepAttemptFailure,
+  type StepErrorKind,
+  type StepFailurePolicy
+} from "./errors.js";
+import {
+  formatIssues,
+  parseJsonReply,
+  validateArtifactPayload,
+  validatePlanPayload,
+  type SchemaIssue,
+  type Validation
+} from "./schema.js";
+import {
+  chunkDocument,
+  createChunkIndex,
+  selectChunks,
+  toChunkReference,
+  type ChunkReference,
+  type ScoredChunk
+} from "./retrieval.js";
+
+export * from "./providers.js";
+export type { TokenUsage } from "./usage.js";
+export * from "./retrieval.js";
+export type { Citation } from "./citations.js";
+export * from "./versions.js";
+export * from "./diff.js";
+export * from "./clarifications.js";
+export * from "./archetypes.js";
+export * from "./templates.js";
+export * from "./schema.js";
+export * from "./errors.js";
+export * from "./checkpoints.js";
+export * from "./jobs.js";
+export * from "./locks.js";
+export * from "./importers.js";
+export * from "./exporters.js";
+export { extractPdfText, type PdfText } from "./pdf.js";
+export { readZip, writeZip } from "./zip.js";
+export { findDependencyCycle } from "./stepGraph.js";
+
+/** A built-in role (Researcher, Writer, Critic, Organizer) or one defined in `workspace/agents`. */
+export type PlanAgentRole = string;
 
 export type PlanAgent = {
   name: string;
@@ -16,6 +89,11 @@ export type PlanStep = {
   title: string;
   description: string;
   agent: string;
+  dependsOn?: string[];
+  /** Pause after this step until a reviewer approves, edits or rejects its notes. */
+  requiresApproval?: boolean;
+  /** Defaults to `retry`. */
+  onFailure?: StepFailurePolicy;
 };
 
 export type RunPlan = {
@@ -31,13 +109,55 @@ export type StepResult = {
   title: string;
   agent: string;
   output: string;
+  usage?: TokenUsage;
+  excerpts?: ChunkReference[];
+  review?: "approved" | "edited";
+  /** Model calls made for the step when more than one was needed. */
+  attempts?: number;
+  /** Set when the step failed and its `onFailure` policy was `skip`. */
+  skipped?: { kind: StepErrorKind; error: string };
+  /** The output was carried over from an earlier run instead of generated again. */
+  reused?: boolean;
+};
+
+/** Partial step output; `attempt` increases each time the step's model call is repeated. */
+export type StepDelta = {
+  stepId: string;
+  text: string;
+  attempt: number;
 };
 
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "reject"; reason?: string }
+  | { action: "edit"; output: string };
+
 export type ArtifactResult = {
   outputPath: string;
   relativePath: string;
   content: string;
   previousContent: string;
+  citations: Citation[];
+  /**
+   * Set when the run's output was merged with user edits, made either since
+   * the previous run or while this run was in progress.
+   */
+  merge?: { conflicts: number; changedDuringRun: boolean };
+};
+
+export type RunWarningCode =
+  | "invalid_plan"
+  | "plan_fallback"
+  | "invalid_artifacts"
+  | "artifacts_fallback"
+  | "artifact_fallback";
+
+/** Something the run worked around instead of failing, e.g. a default used for a bad reply. */
+export type RunWarning = {
+  code: RunWarningCode;
+  message: string;
+  issues?: SchemaIssue[];
+  path?: string;
 };
 
 export type RunAgentOptions = {
@@ -45,50 +165,97 @@ export type RunAgentOptions = {
   plan: RunPlan;
   workspaceRoot?: string;
   onStatus?: (message: string) => void;
-  onStepStart?: (step: PlanStep) => void;
+  onStepStart?: (step: PlanStep, excerpts: ChunkReference[]) => void;
   onStepComplete?: (result: StepResult) => void;
+  onStepDelta?: (delta: StepDelta) => void;
   onArtifactWritten?: (artifact: ArtifactResult) => void;
+  onUsage?: (usage: TokenUsage) => void;
+  onWarning?: (warning: RunWarning) => void;
+  /** Called for every failed step attempt with what happens next. */
+  onStepAttemptFailed?: (failure: StepAttemptFailure) => void;
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Called for steps that require approval; later steps wait for the decision. */
+  onAwaitApproval?: (result: StepResult) => Promise<ApprovalDecision>;
   shouldCancel?: () => boolean;
   startingStepIndex?: number;
-  clarifications?: string;
+  /**
+   * Results of earlier runs to reuse instead of running their steps again.
+   * A result is dropped when a step it depends on has to run.
+   */
+  checkpoints?: StepResult[];
+  /** Called for each checkpointed result the run reuses, before any step starts. */
+  onStepReused?: (result: StepResult) => void;
+  clarifications?: Clarification[];
+  /**
+   * Called when a sub-agent cannot continue without the user. The step waits
+   * for the answer and is then run again with it.
+   */
+  onQuestion?: (question: BlockingQuestion) => Promise<string>;
   priorArtifacts?: { path: string; content: string }[];
   maxTurns?: number;
+  maxParallelSteps?: number;
+  stepContextChars?: number;
+  contextTokens?: number;
+  maxRunTokens?: number;
+  maxStepTokens?: number;
+  provider?: ModelProvider;
+  /** Version history for artifact writes; defaults to `<workspace>/.versions`. */
+  versions?: VersionStore;
+  /** Recorded as the author of artifact versions, e.g. the run id. */
+  author?: string;
 };
 
 export type RunAgentResult = {
   artifacts: ArtifactResult[];
   steps: StepResult[];
   sources: string[];
+  citations: Citation[];
   mainArtifact: string;
   outputs: string[];
   plan: RunPlan;
+  usage: TokenUsage;
+  /** The pre-run answers plus any questions raised and answered during the run. */
+  clarifications: Clarification[];
 };
 
 export type PlanOptions = {
   prompt: string;
   workspaceRoot?: string;
   onStatus?: (message: string) => void;
+  onWarning?: (warning: RunWarning) => void;
+  provider?: ModelProvider;
 };
 
 export const MAX_STEPS = 8;
 export const MAX_AGENTS = 4;
 export const MAX_TURNS = 12;
+export const MAX_PARALLEL_STEPS = 2;
+export const MAX_STEP_CONTEXT_CHARS = 8000;
+export const MAX_CONTEXT_TOKENS = 6000;
+export const MAX_RUN_TOKENS = 400_000;
+export const MAX_STEP_TOKENS = 100_000;
+/** Times an invalid planner or artifact reply is sent back with its validation errors. */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+const MAX_WRITE_ATTEMPTS = 3;
+const MAX_QUESTIONS = 3;
+const MAX_REPAIR_ECHO_CHARS = 4000;
 
-const DEFAULT_MODEL = "claude-3-5-sonnet-latest";
 const REQUIRED_OUTPUTS = ["Next Actions.md", "Open Questions.md", "Sources.md"];
 const OPTIONAL_OUTPUTS = ["Outline.md", "Critique.md"];
 const DEFAULT_MAIN_OUTPUT = "Brief.md";
-const AGENT_ARCHETYPES: PlanAgentRole[] = ["Researcher", "Writer", "Critic", "Organizer"];
 
-const resolveClaudeExecutable = () => {
-  if (process.env.CLAUDE_CODE_PATH) {
-    return process.env.CLAUDE_CODE_PATH;
-  }
-  try {
-    return execFileSync("which", ["claude"], { encoding: "utf8" }).trim();
-  } catch {
-    return "claude";
-  }
+/** A run's export bundle: its main deliverables, then Next Actions, Open Questions and Sources. */
+export const selectBundleArtifacts = <T extends { relativePath: string }>(artifacts: T[]) => {
+  const named = (output: string) =>
+    artifacts.find((artifact) => artifact.relativePath.toLowerCase() === output.toLowerCase());
+  const companions = [...REQUIRED_OUTPUTS, ...OPTIONAL_OUTPUTS].map((output) =>
+    output.toLowerCase()
+  );
+  return [
+    ...artifacts.filter((artifact) => !companions.includes(artifact.relativePath.toLowerCase())),
+    ...REQUIRED_OUTPUTS.flatMap((output) => named(output) ?? [])
+  ];
 };
 
 const getWorkspaceRoot = () => {
@@ -172,25 +339,12 @@ const buildOutputs = (outputs: string[]) => {
   return uniqueByLowercase(withRequired);
 };
 
-const parseJson = (value: string) => {
-  const start = value.indexOf("{");
-  const end = value.lastIndexOf("}");
-  if (start === -1 || end === -1 || end <= start) {
-    return null;
-  }
-  try {
-    return JSON.parse(value.slice(start, end + 1));
-  } catch {
-    return null;
-  }
-};
-
 const buildFallbackPlan = (prompt: string, outputs: string[]): RunPlan => {
   const fallbackAgents: PlanAgent[] = [
-    { name: "Researcher", role: "Researcher" as PlanAgentRole },
-    { name: "Writer", role: "Writer" as PlanAgentRole },
-    { name: "Critic", role: "Critic" as PlanAgentRole },
-    { name: "Organizer", role: "Organizer" as PlanAgentRole }
+    { name: "Researcher", role: "Researcher" },
+    { name: "Writer", role: "Writer" },
+    { name: "Critic", role: "Critic" },
+    { name: "Organizer", role: "Organizer" }
   ].slice(0, MAX_AGENTS);
 
   const fallbackSteps: PlanStep[] = [
@@ -198,25 +352,29 @@ const buildFallbackPlan = (prompt: string, outputs: string[]): RunPlan => {
       id: "step-1",
       title: "Review workspace context",
       description: "Scan the workspace documents for relevant facts and context.",
-      agent: fallbackAgents[0]?.name ?? "Researcher"
+      agent: fallbackAgents[0]?.name ?? "Researcher",
+      dependsOn: []
     },
     {
       id: "step-2",
       title: "Draft outline and key points",
       description: "Outline the main deliverable and capture key points to address the prompt.",
-      agent: fallbackAgents[1]?.name ?? "Writer"
+      agent: fallbackAgents[1]?.name ?? "Writer",
+      dependsOn: ["step-1"]
     },
     {
       id: "step-3",
       title: "Critique and refine",
       description: "Surface risks, gaps, and questions to improve the final outputs.",
-      agent: fallbackAgents[2]?.name ?? "Critic"
+      agent: fallbackAgents[2]?.name ?? "Critic",
+      dependsOn: ["step-2"]
     },
     {
       id: "step-4",
       title: "Assemble artifacts",
       description: "Compile the deliverable, next actions, open questions, and sources.",
-      agent: fallbackAgents[3]?.name ?? "Organizer"
+      agent: fallbackAgents[3]?.name ?? "Organizer",
+      dependsOn: ["step-3"]
     }
   ].slice(0, MAX_STEPS);
 
@@ -229,14 +387,23 @@ const buildFallbackPlan = (prompt: string, outputs: string[]): RunPlan => {
   };
 };
 
-const normalizePlan = (plan: RunPlan, prompt: string) => {
+/**
+ * Unknown roles fall back to the archetype named like the agent, then cycle
+ * through the built-in roles.
+ */
+const normalizePlan = (
+  plan: RunPlan,
+  prompt: string,
+  archetypes: AgentArchetype[] = BUILT_IN_ARCHETYPES
+) => {
   const agents = uniqueByLowercase(
     plan.agents.map((agent) => agent.name).filter(Boolean)
   ).map((name, index) => {
     const role = plan.agents.find((agent) => agent.name === name)?.role;
+    const archetype = findArchetype(archetypes, role) ?? findArchetype(archetypes, name);
     return {
       name,
-      role: role && AGENT_ARCHETYPES.includes(role) ? role : AGENT_ARCHETYPES[index % 4]
+      role: archetype?.role ?? BUILT_IN_ARCHETYPES[index % BUILT_IN_ARCHETYPES.length].role
     } as PlanAgent;
   });
 
@@ -245,15 +412,22 @@ const normalizePlan = (plan: RunPlan, prompt: string) => {
     trimmedAgents.push({ name: "Writer", role: "Writer" });
   }
 
-  const steps = plan.steps.slice(0, MAX_STEPS).map((step, index) => {
+  const namedSteps = plan.steps.slice(0, MAX_STEPS).map((step, index) => {
     const agentName = trimmedAgents.find((agent) => agent.name === step.agent)?.name;
     return {
       id: step.id || `step-${index + 1}`,
       title: step.title || `Step ${index + 1}`,
       description: step.description || "",
-      agent: agentName ?? trimmedAgents[index % trimmedAgents.length].name
+      agent: agentName ?? trimmedAgents[index % trimmedAgents.length].name,
+      dependsOn: step.dependsOn,
+      ...(step.requiresApproval ? { requiresApproval: true } : {}),
+      ...(step.onFailure && STEP_FAILURE_POLICIES.includes(step.onFailure)
+        ? { onFailure: step.onFailure }
+        : {})
     } as PlanStep;
   });
+  const steps: PlanStep[] = resolveDependencies(namedSteps);
+  assertAcyclic(steps);
 
   if (steps.length === 0) {
     return buildFallbackPlan(prompt, plan.outputs);
@@ -264,22 +438,31 @@ const normalizePlan = (plan: RunPlan, prompt: string) => {
     steps,
     agents: trimmedAgents,
     outputs: buildOutputs(plan.outputs),
-    questions: (plan.questions ?? []).slice(0, 3).filter(Boolean)
+    questions: (plan.questions ?? []).slice(0, MAX_QUESTIONS).filter(Boolean)
   } satisfies RunPlan;
 };
 
-const buildPlanPrompt = (prompt: string, docNames: string[]) => [
+const describeArchetype = (archetype: AgentArchetype) =>
+  [
+    `- ${archetype.role}`,
+    archetype.description ? `: ${archetype.description}` : "",
+    archetype.allowedOutputs.length ? ` (only feeds ${archetype.allowedOutputs.join(", ")})` : ""
+  ].join("");
+
+const buildPlanPrompt = (prompt: string, docNames: string[], archetypes: AgentArchetype[]) => [
   "You are a planning assistant for a document workflow app.",
   "Return only valid JSON with the shape:",
   "{",
   "  \"interpretedGoal\": string,",
-  "  \"steps\": [{\"title\": string, \"description\": string, \"agent\": string}],",
+  "  \"steps\": [{\"title\": string, \"description\": string, \"agent\": string, \"dependsOn\": [number]}],",
   "  \"agents\": [{\"name\": string, \"role\": string}],",
   "  \"outputs\": [string],",
   "  \"questions\": [string]",
   "}",
-  `Constraints: steps <= ${MAX_STEPS}, agents <= ${MAX_AGENTS}, questions <= 3.`,
-  "Use only these agent archetypes: Researcher, Writer, Critic, Organizer.",
+  `Constraints: steps <= ${MAX_STEPS}, agents <= ${MAX_AGENTS}, questions <= ${MAX_QUESTIONS}.`,
+  "Use only these agent archetypes as roles:",
+  ...archetypes.map(describeArchetype),
+  "dependsOn lists the 1-based numbers of earlier steps whose notes a step needs; independent steps use [] and may run in parallel.",
   "Outputs must be markdown files under workspace/docs (e.g., Brief.md).",
   "Outputs must include a main deliverable plus: Next Actions.md, Open Questions.md, Sources.md.",
   "If details are missing, ask up to 3 clarifying questions.",
@@ -287,26 +470,115 @@ const buildPlanPrompt = (prompt: string, docNames: string[]) => [
   `User prompt: ${prompt}`
 ].join("\n");
 
-const buildStepPrompt = (step: PlanStep, plan: RunPlan, docs: { path: string; content: string }[]) => [
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const buildRepairPrompt = (prompt: string, reply: string, issues: SchemaIssue[]) =>
+  [
+    prompt,
+    "",
+    "Your previous reply could not be used:",
+    formatIssues(issues),
+    "Previous reply:",
+    reply.slice(0, MAX_REPAIR_ECHO_CHARS),
+    "Reply again with only the corrected JSON."
+  ].join("\n");
+
+/**
+ * Requests a JSON reply and validates it. Invalid replies are sent back with
+ * their validation errors up to `MAX_REPAIR_ATTEMPTS` times; the last issues
+ * are returned when no valid reply arrives.
+ */
+const completeValidated = async <T>(
+  complete: (prompt: string) => Promise<ModelResponse>,
+  prompt: string,
+  validate: (value: unknown) => Validation<T>,
+  onRepair: (issues: SchemaIssue[], attempt: number) => void
+): Promise<Validation<T>> => {
+  let request = prompt;
+  for (let attempt = 0; ; attempt += 1) {
+    const response = await complete(request);
+    if (!response.ok) {
+      const errors = response.errors.length ? response.errors : ["The model request failed."];
+      return { ok: false, issues: errors.map((message) => ({ path: "", message })) };
+    }
+    const parsed = parseJsonReply(response.text);
+    const result = parsed.ok ? validate(parsed.value) : parsed;
+    if (result.ok || attempt >= MAX_REPAIR_ATTEMPTS) {
+      return result;
+    }
+    onRepair(result.issues, attempt + 1);
+    request = buildRepairPrompt(prompt, response.text, result.issues);
+  }
+};
+
+const CITATION_INSTRUCTION = [
+  "Cite every workspace fact with a marker like [[client-notes.md#L3-L5]]",
+  "using the document path and the line numbers shown in the excerpts."
+].join(" ");
+
+const numberLines = (text: string, startLine: number) =>
+  text
+    .split("\n")
+    .map((line, index) => `${startLine + index}: ${line}`)
+    .join("\n");
+
+const archetypeForAgent = (plan: RunPlan, agentName: string, archetypes: AgentArchetype[]) =>
+  findArchetype(archetypes, plan.agents.find((agent) => agent.name === agentName)?.role);
+
+const buildStepPrompt = (
+  step: PlanStep,
+  plan: RunPlan,
+  archetype: AgentArchetype | undefined,
+  docPaths: string[],
+  excerpts: ScoredChunk[],
+  priorNotes: StepContextEntry[],
+  clarifications: Clarification[],
+  allowQuestions: boolean
+) => [
   `You are ${step.agent}, acting as a ${
     plan.agents.find((agent) => agent.name === step.agent)?.role ?? "Writer"
   } sub-agent.`,
+  archetype?.systemPrompt ?? "",
   "Your job is to produce concise markdown notes for this step.",
+  archetype?.allowedOutputs.length
+    ? `Your notes may only be used in: ${archetype.allowedOutputs.join(", ")}.`
+    : "",
   "Use only the workspace documents and prior notes provided.",
   "Do not reference any information outside the workspace.",
+  CITATION_INSTRUCTION,
+  allowQuestions ? QUESTION_INSTRUCTION : "",
   `Step title: ${step.title}`,
   `Step description: ${step.description}`,
   "Plan steps:",
   ...plan.steps.map((item, index) => `${index + 1}. ${item.title} (${item.agent})`),
-  "Workspace documents:",
-  ...docs.map((doc) => `---\nDocument: ${doc.path}\n${doc.content}`)
+  clarifications.length
+    ? `Clarifications from the user:\n${formatClarifications(clarifications)}`
+    : "",
+  priorNotes.length
+    ? [
+        "Notes from the steps this one builds on:",
+        ...priorNotes.map(
+          (note) =>
+            `---\n${note.title} (${note.agent})${note.summarized ? " [summarized]" : ""}\n${note.output}`
+        )
+      ].join("\n")
+    : "",
+  `Workspace documents: ${docPaths.length ? docPaths.join(", ") : "None"}.`,
+  "Relevant workspace excerpts (most relevant passages for this step, lines numbered):",
+  ...excerpts.map(
+    ({ chunk }) =>
+      `---\nDocument: ${chunk.path} (lines ${chunk.startLine}-${chunk.endLine})\n${numberLines(
+        chunk.text,
+        chunk.startLine
+      )}`
+  )
 ].join("\n");
 
 const buildArtifactPrompt = (
   plan: RunPlan,
+  archetypes: AgentArchetype[],
   stepOutputs: StepResult[],
-  sources: string[],
-  clarifications?: string,
+  clarifications: Clarification[],
   priorArtifacts?: { path: string; content: string }[]
 ) => [
   "You are the Organizer sub-agent assembling final artifacts.",
@@ -314,9 +586,12 @@ const buildArtifactPrompt = (
   "{ \"artifacts\": [{\"path\": string, \"content\": string}] }",
   "Only include markdown files under workspace/docs.",
   `Planned outputs: ${plan.outputs.join(", ")}.`,
-  "Ensure Sources.md lists the workspace documents referenced.",
+  "Keep the [[document.md#Lx-Ly]] citation markers from the step notes next to the claims they support.",
+  "Sources.md is generated from those markers, so its content may be left brief.",
   "Include headings and clear structure.",
-  clarifications ? `Clarifications from the user: ${clarifications}` : "",
+  clarifications.length
+    ? `Clarifications from the user:\n${formatClarifications(clarifications)}`
+    : "",
   priorArtifacts && priorArtifacts.length
     ? [
         "Existing artifacts to refine:",
@@ -324,25 +599,23 @@ const buildArtifactPrompt = (
       ].join("\n")
     : "",
   "Step notes:",
-  ...stepOutputs.map((step) => `---\n${step.title} (${step.agent})\n${step.output}`),
-  "Sources list:",
-  sources.join("\n")
+  ...stepOutputs.map((step) => {
+    const allowed = archetypeForAgent(plan, step.agent, archetypes)?.allowedOutputs ?? [];
+    const scope = allowed.length ? ` [use only in ${allowed.join(", ")}]` : "";
+    return `---\n${step.title} (${step.agent})${scope}\n${step.output}`;
+  })
 ].join("\n");
 
 const buildFallbackArtifacts = (
   plan: RunPlan,
   stepOutputs: StepResult[],
-  sources: string[],
-  clarifications?: string
+  clarifications: Clarification[]
 ) => {
   const notes = stepOutputs.map((step) => `## ${step.title}\n${step.output}`).join("\n\n");
-  const sourcesContent = sources.length
-    ? sources.map((source) => `- ${source}`).join("\n")
-    : "- None";
 
   return plan.outputs.map((output) => {
     if (output.toLowerCase() === "sources.md") {
-      return { path: output, content: `# Sources\n\n${sourcesContent}` };
+      return { path: output, content: "# Sources" };
     }
     if (output.toLowerCase() === "next actions.md") {
       return {
@@ -370,7 +643,9 @@ const buildFallbackArtifacts = (
       content: [
         `# ${output.replace(/\.md$/i, "")}`,
         plan.interpretedGoal ? `\n**Goal:** ${plan.interpretedGoal}` : "",
-        clarifications ? `\n**Clarifications:** ${clarifications}` : "",
+        clarifications.length
+          ? `\n**Clarifications:**\n${formatClarifications(clarifications)}`
+          : "",
         "\n## Notes",
         notes || "No notes available."
       ].join("\n")
@@ -378,7 +653,13 @@ const buildFallbackArtifacts = (
   });
 };
 
-export const createPlan = async ({ prompt, workspaceRoot, onStatus }: PlanOptions) => {
+export const createPlan = async ({
+  prompt,
+  workspaceRoot,
+  onStatus,
+  onWarning,
+  provider = createClaudeProvider()
+}: PlanOptions) => {
   const resolvedWorkspace = workspaceRoot ?? getWorkspaceRoot();
   const instructionsPath = path.join(resolvedWorkspace, "AGENT_INSTRUCTIONS.md");
   const docsRoot = path.join(resolvedWorkspace, "docs");
@@ -386,58 +667,61 @@ export const createPlan = async ({ prompt, workspaceRoot, onStatus }: PlanOption
   await fs.mkdir(docsRoot, { recursive: true });
   onStatus?.("Planning run");
 
-  const [instructions, docPaths] = await Promise.all([
+  const [instructions, docPaths, archetypes] = await Promise.all([
     fs.readFile(instructionsPath, "utf8").catch(() => ""),
-    listMarkdownFiles(docsRoot, docsRoot)
+    listMarkdownFiles(docsRoot, docsRoot),
+    loadAgentArchetypes(resolvedWorkspace)
   ]);
 
   const planPrompt = [
     "Follow these instructions:",
     instructions,
-    buildPlanPrompt(prompt, docPaths)
+    buildPlanPrompt(prompt, docPaths, archetypes)
   ].join("\n");
 
-  const result = await unstable_v2_prompt(planPrompt, {
-    model: DEFAULT_MODEL,
-    pathToClaudeCodeExecutable: resolveClaudeExecutable(),
-    permissionMode: "dontAsk",
-    env: process.env
-  });
-
-  if (result.subtype !== "success") {
-    return buildFallbackPlan(prompt, []);
-  }
+  const reply = await completeValidated(
+    (request) => provider.complete({ kind: "plan", prompt: request }),
+    planPrompt,
+    (value) =>
+      validatePlanPayload(value, {
+        maxSteps: MAX_STEPS,
+        maxAgents: MAX_AGENTS,
+        maxQuestions: MAX_QUESTIONS,
+        roles: archetypes.map((archetype) => archetype.role)
+      }),
+    (issues, attempt) =>
+      onWarning?.({
+        code: "invalid_plan",
+        message: `The planner's reply was invalid; asking for a corrected plan (${attempt}/${MAX_REPAIR_ATTEMPTS}).`,
+        issues
+      })
+  );
 
-  const parsed = parseJson(result.result ?? "");
-  if (!parsed) {
+  if (!reply.ok) {
+    onWarning?.({
+      code: "plan_fallback",
+      message: "Using the default plan because the planner did not return a valid one.",
+      issues: reply.issues
+    });
     return buildFallbackPlan(prompt, []);
   }
 
+  const parsed = reply.value;
   const rawPlan: RunPlan = {
-    interpretedGoal: String(parsed.interpretedGoal ?? ""),
-    steps: Array.isArray(parsed.steps)
-      ? parsed.steps.map((step: Record<string, unknown>, index: number) => ({
-          id: `step-${index + 1}`,
-          title: String(step.title ?? ""),
-          description: String(step.description ?? ""),
-          agent: String(step.agent ?? "")
-        }))
-      : [],
-    agents: Array.isArray(parsed.agents)
-      ? parsed.agents.map((agent: Record<string, unknown>) => ({
-          name: String(agent.name ?? ""),
-          role: String(agent.role ?? "Writer") as PlanAgentRole
-        }))
-      : [],
-    outputs: Array.isArray(parsed.outputs)
-      ? parsed.outputs.map((output: unknown) => String(output ?? ""))
-      : [],
-    questions: Array.isArray(parsed.questions)
-      ? parsed.questions.map((question: unknown) => String(question ?? "")).filter(Boolean)
-      : []
+    interpretedGoal: parsed.interpretedGoal,
+    steps: parsed.steps.map((step, index) => ({
+      id: `step-${index + 1}`,
+      title: step.title,
+      description: step.description,
+      agent: step.agent,
+      dependsOn: step.dependsOn?.map((dependency) => `step-${dependency}`)
+    })),
+    agents: parsed.agents,
+    outputs: parsed.outputs,
+    questions: parsed.questions.filter((question) => question.trim())
   };
 
-  return normalizePlan(rawPlan, prompt);
+  return normalizePlan(rawPlan, prompt, archetypes);
 };
 
 export const runAgent = async ({
@@ -447,17 +731,37 @@ export const runAgent = async ({
   onStatus,
   onStepStart,
   onStepComplete,
+  onStepDelta,
   onArtifactWritten,
+  onUsage,
+  onWarning,
+  onStepAttemptFailed,
+  retryPolicy,
+  onAwaitApproval,
   shouldCancel,
   startingStepIndex = 0,
-  clarifications,
+  checkpoints = [],
+  onStepReused,
+  clarifications = [],
+  onQuestion,
   priorArtifacts,
-  maxTurns = MAX_TURNS
+  maxTurns = MAX_TURNS,
+  maxParallelSteps = MAX_PARALLEL_STEPS,
+  stepContextChars = MAX_STEP_CONTEXT_CHARS,
+  contextTokens = MAX_CONTEXT_TOKENS,
+  maxRunTokens = MAX_RUN_TOKENS,
+  maxStepTokens = MAX_STEP_TOKENS,
+  provider = createClaudeProvider(),
+  versions,
+  author = "run"
 }: RunAgentOptions): Promise<RunAgentResult> => {
   const resolvedWorkspace = workspaceRoot ?? getWorkspaceRoot();
   const instructionsPath = path.join(resolvedWorkspace, "AGENT_INSTRUCTIONS.md");
   const docsRoot = path.join(resolvedWorkspace, "docs");
-  const normalizedPlan = normalizePlan(plan, prompt);
+  const versionStore =
+    versions ?? createVersionStore(docsRoot, path.join(resolvedWorkspace, ".versions"));
+  const archetypes = await loadAgentArchetypes(resolvedWorkspace);
+  const normalizedPlan = normalizePlan(plan, prompt, archetypes);
 
   await fs.mkdir(docsRoot, { recursive: true });
   const [instructions, docPaths] = await Promise.all([
@@ -472,6 +776,58 @@ export const runAgent = async ({
       return { path: docPath, content };
     })
   );
+  const chunkIndex = createChunkIndex(docs.flatMap((doc) => chunkDocument(doc.path, doc.content)));
+  const startContent = new Map(docs.map((doc) => [doc.path, doc.content]));
+
+  /**
+   * Writes one artifact. A doc that changed since the run started is merged
+   * against its starting content; otherwise edits made since the last run
+   * are merged against that run's output. The write only lands if the doc
+   * is still what was merged, and is retried when it changed in between.
+   */
+  const writeArtifact = async (docPath: string, generated: string) => {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt += 1) {
+      const previousContent = await fs
+        .readFile(ensureDocsPath(docsRoot, docPath), "utf8")
+        .catch(() => null);
+      const startedWith = startContent.get(docPath);
+      const changedDuringRun = previousContent !== null && previousContent !== startedWith;
+      const base = changedDuringRun
+        ? startedWith ?? ""
+        : previousContent !== null
+          ? (await versionStore.readLatestRunVersion(docPath))?.content
+          : undefined;
+      const merge =
+        base !== undefined &&
+        previousContent !== null &&
+        base !== previousContent &&
+        previousContent !== generated
+          ? mergeThreeWay(base, previousContent, generated, {
+              ours: "your edits",
+              theirs: "this run"
+            })
+          : null;
+      const content = merge?.content ?? generated;
+      const result = await versionStore.writeIfMatch(
+        docPath,
+        content,
+        {
+          kind: "run",
+          author,
+          reason: merge ? "Run artifact merged with user edits" : "Run artifact"
+        },
+        previousContent === null ? null : hashContent(previousContent)
+      );
+      if (result.ok) {
+        return {
+          content,
+          previousContent: previousContent ?? "",
+          merge: merge ? { conflicts: merge.conflicts, changedDuringRun } : undefined
+        };
+      }
+    }
+    throw new Error(`${docPath} kept changing while the run was writing it.`);
+  };
 
   let turnCount = 0;
   const consumeTurn = () => {
@@ -481,47 +837,264 @@ export const runAgent = async ({
     }
   };
 
-  const stepResults: StepResult[] = [];
-  const stepsToRun = normalizedPlan.steps.slice(startingStepIndex);
+  let runUsage = emptyUsage();
+  const runClarifications = [...clarifications];
+  const callModel = async (request: ModelRequest, label: string) => {
+    const estimated = estimateTokens(request.prompt);
+    if (request.kind === "step" && estimated > maxStepTokens) {
+      throw new Error(
+        `${label} needs about ${estimated} input tokens, over the per-step budget of ${maxStepTokens}.`
+      );
+    }
+    if (totalTokens(runUsage) + estimated > maxRunTokens) {
+      throw new Error(`${label} would exceed the run token budget of ${maxRunTokens}.`);
+    }
 
-  for (const step of stepsToRun) {
-    if (shouldCancel?.()) {
-      throw new Error("Run cancelled.");
+    consumeTurn();
+    // A provider that throws (e.g. a crashed session) is treated like a failed reply.
+    const reply: ModelResponse = await provider.complete(request).catch((error) => ({
+      ok: false,
+      errors: [error instanceof Error ? error.message : String(error)]
+    }));
+    // A refusal is never saved as notes or artifacts; it fails the call like a refusal error.
+    const response: ModelResponse =
+      reply.ok && isRefusalReply(reply.text)
+        ? { ok: false, errors: [`The model refused: ${reply.text.trim()}`], usage: reply.usage }
+        : reply;
+    const usage = response.usage ?? { inputTokens: estimated, outputTokens: 0, costUsd: 0 };
+    runUsage = addUsage(runUsage, usage);
+    onUsage?.(runUsage);
+
+    if (request.kind === "step" && totalTokens(usage) > maxStepTokens) {
+      throw new Error(
+        `${label} used ${totalTokens(usage)} tokens, over the per-step budget of ${maxStepTokens}.`
+      );
+    }
+    if (totalTokens(runUsage) > maxRunTokens) {
+      throw new Error(
+        `Run used ${totalTokens(runUsage)} tokens, over its budget of ${maxRunTokens}.`
+      );
     }
+    return { response, usage };
+  };
 
-    onStatus?.(`Agent ${step.agent} working on ${step.title}`);
-    onStepStart?.(step);
+  const retries = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+  const checkpointed = new Map(checkpoints.map((result) => [result.stepId, result]));
+  const stale = findDependents(
+    normalizedPlan.steps,
+    normalizedPlan.steps
+      .slice(startingStepIndex)
+      .filter((step) => !checkpointed.has(step.id))
+      .map((step) => step.id)
+  );
+  const reused = normalizedPlan.steps.flatMap((step) => {
+    const result = checkpointed.get(step.id);
+    return result && !stale.has(step.id) ? [{ ...result, reused: true }] : [];
+  });
+  const reusedIds = new Set(reused.map((result) => result.stepId));
+  const stepResults: StepResult[] = [...reused];
+  const stepsToRun = normalizedPlan.steps
+    .slice(startingStepIndex)
+    .filter((step) => !reusedIds.has(step.id));
+  if (reused.length > 0) {
+    onStatus?.(`Reusing ${reused.length} completed step${reused.length === 1 ? "" : "s"}`);
+    reused.forEach((result) => onStepReused?.(result));
+  }
 
-    const stepPrompt = [
-      "Follow these instructions:",
-      instructions,
-      buildStepPrompt(step, normalizedPlan, docs)
-    ].join("\n");
+  const executeStep = async (step: PlanStep) => {
+    const selected = selectChunks(chunkIndex, `${step.title}\n${step.description}`, contextTokens);
+    const excerpts = selected.map(toChunkReference);
 
-    consumeTurn();
-    const result = await unstable_v2_prompt(stepPrompt, {
-      model: DEFAULT_MODEL,
-      pathToClaudeCodeExecutable: resolveClaudeExecutable(),
-      permissionMode: "dontAsk",
-      env: process.env
-    });
+    onStatus?.(`Agent ${step.agent} working on ${step.title}`);
+    onStepStart?.(step, excerpts);
+
+    const priorNotes = buildStepContext(step, normalizedPlan.steps, stepResults, stepContextChars);
+    const archetype = archetypeForAgent(normalizedPlan, step.agent, archetypes);
+    const failurePolicy = step.onFailure ?? "retry";
+    let usage = emptyUsage();
+    let calls = 0;
+    let attempts = 1;
+
+    /**
+     * Calls the model for the step, retrying transient errors with backoff
+     * unless the step's policy is `abort`.
+     */
+    const completeStep = async (prompt: string) => {
+      for (attempts = 1; ; attempts += 1) {
+        const attempt = calls;
+        calls += 1;
+        const { response, usage: callUsage } = await callModel(
+          {
+            kind: "step",
+            prompt,
+            stepId: step.id,
+            model: archetype?.model,
+            onDelta: onStepDelta
+              ? (text) => onStepDelta({ stepId: step.id, text, attempt })
+              : undefined
+          },
+          `Step "${step.title}"`
+        );
+        usage = addUsage(usage, callUsage);
+        if (response.ok) {
+          return response;
+        }
+
+        const errors = response.errors.length ? response.errors : ["Agent step failed."];
+        const kind = classifyStepErrors(errors);
+        const error = errors.join("; ");
+        const retry =
+          kind === "transient" && failurePolicy !== "abort" && attempts <= retries.maxRetries;
+        const retryInMs = retry ? retryDelay(retries, attempts) : undefined;
+        onStepAttemptFailed?.({
+          stepId: step.id,
+          attempt: attempts,
+          kind,
+          error,
+          next: retry ? "retry" : failurePolicy === "skip" ? "skip" : "abort",
+          ...(retryInMs !== undefined ? { retryInMs } : {})
+        });
+        if (!retry) {
+          return { ok: false as const, kind, error };
+        }
+        onStatus?.(`${step.agent} hit a ${kind} error on ${step.title}; retrying`);
+        await sleep(retryInMs ?? 0);
+        if (shouldCancel?.()) {
+          throw new Error("Run cancelled.");
+        }
+      }
+    };
 
-    if (result.subtype !== "success") {
-      throw new Error(result.errors?.join("; ") ?? "Agent step failed.");
+    let output = "";
+    let skipped: StepResult["skipped"];
+    for (let asked = 0; ; asked += 1) {
+      const canAsk = Boolean(onQuestion) && asked < MAX_STEP_QUESTIONS;
+      const stepPrompt = [
+        "Follow these instructions:",
+        instructions,
+        buildStepPrompt(
+          step,
+          normalizedPlan,
+          archetype,
+          docPaths,
+          selected,
+          priorNotes,
+          runClarifications,
+          canAsk
+        )
+      ].join("\n");
+
+      const result = await completeStep(stepPrompt);
+      if (!result.ok) {
+        if (failurePolicy !== "skip") {
+          throw new Error(
+            `Step "${step.title}" failed (${result.kind}) after ${attempts} attempt${
+              attempts === 1 ? "" : "s"
+            }: ${result.error}`
+          );
+        }
+        skipped = { kind: result.kind, error: result.error };
+        output = `Step skipped after a ${result.kind} error: ${result.error}`;
+        break;
+      }
+
+      const question = canAsk ? parseBlockingQuestion(result.text) : null;
+      if (!question || !onQuestion) {
+        output = result.text;
+        break;
+      }
+      const id = `${step.id}-q${asked + 1}`;
+      onStatus?.(`${step.agent} is waiting for an answer: ${question}`);
+      const answer = await onQuestion({ id, stepId: step.id, question });
+      if (shouldCancel?.()) {
+        throw new Error("Run cancelled.");
+      }
+      runClarifications.push({ id, question, answer, stepId: step.id });
     }
 
-    const output = result.result ?? "";
     const stepResult: StepResult = {
       stepId: step.id,
       title: step.title,
       agent: step.agent,
-      output
+      output,
+      usage,
+      excerpts,
+      ...(calls > 1 ? { attempts: calls } : {}),
+      ...(skipped ? { skipped } : {})
     };
 
+    if (step.requiresApproval && onAwaitApproval && !skipped) {
+      onStatus?.(`Waiting for approval of ${step.title}`);
+      const decision = await onAwaitApproval(stepResult);
+      if (decision.action === "reject") {
+        throw new Error(
+          `Step "${step.title}" was rejected${decision.reason ? `: ${decision.reason}` : "."}`
+        );
+      }
+      if (decision.action === "edit") {
+        stepResult.output = decision.output;
+      }
+      stepResult.review = decision.action === "edit" ? "edited" : "approved";
+    }
+
     stepResults.push(stepResult);
     onStepComplete?.(stepResult);
+  };
+
+  // Steps before the starting index count as satisfied dependencies.
+  const completed = new Set([
+    ...normalizedPlan.steps.slice(0, startingStepIndex).map((step) => step.id),
+    ...reusedIds
+  ]);
+  const pending = [...stepsToRun];
+  const inFlight = new Map<string, Promise<{ stepId: string; error?: unknown }>>();
+  const parallelism = Math.max(1, maxParallelSteps);
+  let failure: unknown = null;
+
+  while (pending.length > 0 || inFlight.size > 0) {
+    while (!failure && !shouldCancel?.() && inFlight.size < parallelism) {
+      const readyIndex = pending.findIndex((step) =>
+        (step.dependsOn ?? []).every((dependency) => completed.has(dependency))
+      );
+      if (readyIndex === -1) {
+        break;
+      }
+      const [step] = pending.splice(readyIndex, 1);
+      inFlight.set(
+        step.id,
+        executeStep(step).then(
+          () => ({ stepId: step.id }),
+          (error: unknown) => ({ stepId: step.id, error: error ?? new Error("Agent step failed.") })
+        )
+      );
+    }
+
+    if (inFlight.size === 0) {
+      if (failure) {
+        throw failure;
+      }
+      if (shouldCancel?.()) {
+        throw new Error("Run cancelled.");
+      }
+      throw new Error("Plan steps could not be scheduled: unmet dependencies.");
+    }
+
+    const settled = await Promise.race(inFlight.values());
+    inFlight.delete(settled.stepId);
+    if (settled.error) {
+      failure = failure ?? settled.error;
+      continue;
+    }
+    completed.add(settled.stepId);
+  }
+
+  if (failure) {
+    throw failure;
   }
 
+  const stepOrder = new Map(normalizedPlan.steps.map((step, index) => [step.id, index]));
+  stepResults.sort((a, b) => (stepOrder.get(a.stepId) ?? 0) - (stepOrder.get(b.stepId) ?? 0));
+
   if (shouldCancel?.()) {
     throw new Error("Run cancelled.");
   }
@@ -530,51 +1103,58 @@ export const runAgent = async ({
   const artifactPrompt = [
     "Follow these instructions:",
     instructions,
-    buildArtifactPrompt(normalizedPlan, stepResults, docPaths, clarifications, priorArtifacts)
+    buildArtifactPrompt(
+      normalizedPlan,
+      archetypes,
+      stepResults,
+      runClarifications,
+      priorArtifacts
+    )
   ].join("\n");
 
-  consumeTurn();
-  const artifactResult = await unstable_v2_prompt(artifactPrompt, {
-    model: DEFAULT_MODEL,
-    pathToClaudeCodeExecutable: resolveClaudeExecutable(),
-    permissionMode: "dontAsk",
-    env: process.env
-  });
-
-  let artifactsPayload: { artifacts: { path: string; content: string }[] } | null = null;
-
-  if (artifactResult.subtype === "success") {
-    const parsed = parseJson(artifactResult.result ?? "");
-    if (parsed && Array.isArray(parsed.artifacts)) {
-      artifactsPayload = {
-        artifacts: parsed.artifacts
-          .map((artifact: Record<string, unknown>) => ({
-            path: String(artifact.path ?? ""),
-            content: String(artifact.content ?? "")
-          }))
-          .filter((artifact: { path: string }) => artifact.path)
-      };
-    }
+  const artifactReply = await completeValidated(
+    async (request) =>
+      (await callModel({ kind: "artifacts", prompt: request }, "Artifact assembly")).response,
+    artifactPrompt,
+    validateArtifactPayload,
+    (issues, attempt) =>
+      onWarning?.({
+        code: "invalid_artifacts",
+        message: `The artifact reply was invalid; asking for corrected artifacts (${attempt}/${MAX_REPAIR_ATTEMPTS}).`,
+        issues
+      })
+  );
+  if (!artifactReply.ok) {
+    onWarning?.({
+      code: "artifacts_fallback",
+      message: "Writing template artifacts from the step notes because no valid artifacts came back.",
+      issues: artifactReply.issues
+    });
   }
 
   const fallbackArtifacts = buildFallbackArtifacts(
     normalizedPlan,
     stepResults,
-    docPaths,
-    clarifications
+    runClarifications
   );
-  const rawArtifacts = artifactsPayload?.artifacts?.length
-    ? artifactsPayload.artifacts
-    : fallbackArtifacts;
+  const rawArtifacts = artifactReply.ok ? artifactReply.value.artifacts : fallbackArtifacts;
 
+  const isSources = (artifactPath: string) => artifactPath.toLowerCase() === "sources.md";
   const plannedOutputs = normalizedPlan.outputs;
-  const finalArtifacts = plannedOutputs.map((output) => {
+  const plannedArtifacts = plannedOutputs.map((output) => {
     const match = rawArtifacts.find(
       (artifact) => artifact.path.toLowerCase() === output.toLowerCase()
     );
     if (match) {
       return match;
     }
+    if (artifactReply.ok && !isSources(output)) {
+      onWarning?.({
+        code: "artifact_fallback",
+        message: `${output} was missing from the artifacts, so a template was written instead.`,
+        path: output
+      });
+    }
     return (
       fallbackArtifacts.find((artifact) => artifact.path.toLowerCase() === output.toLowerCase()) ?? {
         path: output,
@@ -583,30 +1163,64 @@ export const runAgent = async ({
     );
   });
 
+  const citedArtifacts = plannedArtifacts.map((artifact) =>
+    isSources(artifact.path)
+      ? { ...artifact, citations: [] as Citation[] }
+      : { path: artifact.path, ...resolveCitations(artifact.content ?? "", docs) }
+  );
+  const citations = Array.from(
+    new Map(
+      citedArtifacts
+        .flatMap((artifact) => artifact.citations)
+        .map((citation) => [citation.id, citation])
+    ).values()
+  );
+  const sourcesContent = buildSourcesContent(
+    citations,
+    stepResults.flatMap((step) => step.excerpts ?? []),
+    docs
+  );
+  const finalArtifacts = citedArtifacts.map((artifact) =>
+    isSources(artifact.path) ? { ...artifact, content: sourcesContent, citations } : artifact
+  );
+
   const artifacts: ArtifactResult[] = [];
-  for (const artifact of finalArtifacts) {
-    if (shouldCancel?.()) {
-      throw new Error("Run cancelled.");
-    }
-    const normalizedPath = normalizeDocName(artifact.path);
-    if (!normalizedPath) {
-      continue;
+  // Runs sharing the workspace write their artifacts one at a time.
+  await withWorkspaceLock(resolvedWorkspace, async () => {
+    for (const artifact of finalArtifacts) {
+      if (shouldCancel?.()) {
+        throw new Error("Run cancelled.");
+      }
+      const normalizedPath = normalizeDocName(artifact.path);
+      if (!normalizedPath) {
+        continue;
+      }
+      const outputPath = ensureDocsPath(docsRoot, normalizedPath);
+      const { content, previousContent, merge } = await writeArtifact(
+        normalizedPath,
+        artifact.content ?? ""
+      );
+      if (merge) {
+        const when = merge.changedDuringRun ? "made during this run" : "made since the last run";
+        onStatus?.(
+          merge.conflicts
+            ? `Merged ${normalizedPath} with edits ${when} (${merge.conflicts} conflicts to resolve)`
+            : `Merged ${normalizedPath} with edits ${when}`
+        );
+      }
+
+      const artifactResultItem: ArtifactResult = {
+        outputPath,
+        relativePath: normalizedPath,
+        content,
+        previousContent,
+        citations: artifact.citations,
+        ...(merge ? { merge } : {})
+      };
+      artifacts.push(artifactResultItem);
+      onArtifactWritten?.(artifactResultItem);
     }
-    const outputPath = ensureDocsPath(docsRoot, normalizedPath);
-    const previousContent = await fs.readFile(outputPath, "utf8").catch(() => "");
-    const content = artifact.content ?? "";
-    await fs.mkdir(path.dirname(outputPath), { recursive: true });
-    await fs.writeFile(outputPath, content, "utf8");
-
-    const artifactResultItem: ArtifactResult = {
-      outputPath,
-      relativePath: normalizedPath,
-      content,
-      previousContent
-    };
-    artifacts.push(artifactResultItem);
-    onArtifactWritten?.(artifactResultItem);
-  }
+  });
 
   const reserved = new Set(
     [...REQUIRED_OUTPUTS, ...OPTIONAL_OUTPUTS].map((output) => output.toLowerCase())
@@ -620,9 +1234,12 @@ export const runAgent = async ({
   return {
     artifacts,
     steps: stepResults,
-    sources: docPaths,
+    sources: Array.from(new Set(citations.map((citation) => citation.path))).sort(),
+    citations,
     mainArtifact,
     outputs: plannedOutputs,
-    plan: normalizedPlan
+    plan: normalizedPlan,
+    usage: runUsage,
+    clarifications: runClarifications
   };
 };
@@ -0,0 +1,154 @@
+import {
+  runAgent,
+  type ApprovalDecision,
+  type ArtifactResult,
+  type PlanStep,
+  type RunAgentResult,
+  type RunPlan,
+  type RunWarning,
+  type StepDelta,
+  type StepResult
+} from "./index.js";
+import type { BlockingQuestion, Clarification } from "./clarifications.js";
+import type { RetryPolicy, StepAttemptFailure } from "./errors.js";
+import type { ModelProvider } from "./providers.js";
+import type { ChunkReference } from "./retrieval.js";
+import type { TokenUsage } from "./usage.js";
+
+/** Everything the worker process needs to execute one queued run. */
+export type RunJob = {
+  runId: string;
+  prompt: string;
+  plan: RunPlan;
+  workspaceRoot: string;
+  clarifications: Clarification[];
+  priorArtifacts: { path: string; content: string }[];
+  startingStepIndex: number;
+  checkpoints: StepResult[];
+  maxParallelSteps?: number;
+  maxRunTokens?: number;
+  maxStepTokens?: number;
+  retryPolicy?: Partial<RetryPolicy>;
+};
+
+/** Messages the API sends to the worker process. */
+export type WorkerCommand =
+  | { type: "start"; job: RunJob }
+  | { type: "cancel"; runId: string }
+  | { type: "approval"; runId: string; stepId: string; decision: ApprovalDecision }
+  | { type: "answer"; runId: string; questionId: string; answer: string };
+
+/** Progress of one run, mirroring the `runAgent` callbacks. */
+export type WorkerEvent = { runId: string } & (
+  | { type: "status"; message: string }
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "step_started"; step: PlanStep; excerpts: ChunkReference[] }
+  | { type: "step_delta"; delta: StepDelta }
+  | { type: "step_failed"; failure: StepAttemptFailure }
+  | { type: "step_reused"; result: StepResult }
+  | { type: "step_completed"; result: StepResult }
+  | { type: "awaiting_approval"; result: StepResult }
+  | { type: "question"; question: BlockingQuestion }
+  | { type: "warning"; warning: RunWarning }
+  | { type: "artifact_written"; artifact: ArtifactResult }
+  | { type: "done"; result: RunAgentResult }
+  | { type: "failed"; error: string; cancelled: boolean }
+);
+
+/** Messages the worker process sends to the API. */
+export type WorkerMessage = { type: "ready" } | WorkerEvent;
+
+type ActiveJob = {
+  cancelled: boolean;
+  approvals: Map<string, (decision: ApprovalDecision) => void>;
+  questions: Map<string, (answer: string) => void>;
+};
+
+/**
+ * Executes jobs sent by the API and reports their progress as messages.
+ * Approvals and answers arrive as commands and resume the waiting step.
+ */
+export const createJobRunner = ({
+  provider,
+  send
+}: {
+  provider: ModelProvider;
+  send: (message: WorkerMessage) => void;
+}) => {
+  const active = new Map<string, ActiveJob>();
+
+  const start = async (job: RunJob) => {
+    const { runId } = job;
+    const state: ActiveJob = { cancelled: false, approvals: new Map(), questions: new Map() };
+    active.set(runId, state);
+    try {
+      const result = await runAgent({
+        prompt: job.prompt,
+        plan: job.plan,
+        workspaceRoot: job.workspaceRoot,
+        provider,
+        author: runId,
+        clarifications: job.clarifications,
+        priorArtifacts: job.priorArtifacts,
+        startingStepIndex: job.startingStepIndex,
+        checkpoints: job.checkpoints,
+        maxParallelSteps: job.maxParallelSteps,
+        maxRunTokens: job.maxRunTokens,
+        maxStepTokens: job.maxStepTokens,
+        retryPolicy: job.retryPolicy,
+        shouldCancel: () => state.cancelled,
+        onStatus: (message) => send({ runId, type: "status", message }),
+        onUsage: (usage) => send({ runId, type: "usage", usage }),
+        onStepStart: (step, excerpts) => send({ runId, type: "step_started", step, excerpts }),
+        onStepDelta: (delta) => send({ runId, type: "step_delta", delta }),
+        onStepAttemptFailed: (failure) => send({ runId, type: "step_failed", failure }),
+        onStepReused: (result) => send({ runId, type: "step_reused", result }),
+        onStepComplete: (result) => send({ runId, type: "step_completed", result }),
+        onWarning: (warning) => send({ runId, type: "warning", warning }),
+        onArtifactWritten: (artifact) => send({ runId, type: "artifact_written", artifact }),
+        onAwaitApproval: (result) =>
+          new Promise((resolve) => {
+            state.approvals.set(result.stepId, resolve);
+            send({ runId, type: "awaiting_approval", result });
+          }),
+        onQuestion: (question) =>
+          new Promise((resolve) => {
+            state.questions.set(question.id, resolve);
+            send({ runId, type: "question", question });
+          })
+      });
+      send({ runId, type: "done", result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Run failed";
+      send({ runId, type: "failed", error: message, cancelled: state.cancelled });
+    } finally {
+      active.delete(runId);
+    }
+  };
+
+  const handle = (command: WorkerCommand) => {
+    if (command.type === "start") {
+      void start(command.job);
+      return;
+    }
+    const state = active.get(command.runId);
+    if (!state) {
+      return;
+    }
+    if (command.type === "cancel") {
+      state.cancelled = true;
+      state.approvals.forEach((resolve) => resolve({ action: "reject", reason: "Run cancelled." }));
+      state.questions.forEach((resolve) => resolve(""));
+      state.approvals.clear();
+      state.questions.clear();
+    } else if (command.type === "approval") {
+      state.approvals.get(command.stepId)?.(command.decision);
+      state.approvals.delete(command.stepId);
+    } else {
+      state.questions.get(command.questionId)?.(command.answer);
+      state.questions.delete(command.questionId);
+    }
+  };
+
+  return { handle, activeRuns: () => Array.from(active.keys()) };
+};
@@ -0,0 +1,85 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const LOCK_FILE = ".workspace.lock";
+const RETRY_MS = 25;
+const WAIT_LIMIT_MS = 120_000;
+
+const locks = new Map<string, Promise<unknown>>();
+
+const isAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+/**
+ * Creates `<workspaceRoot>/.workspace.lock` holding this process's id, waiting
+ * while a live process holds it. Locks left by exited processes are removed.
+ */
+const acquireFileLock = async (lockPath: string) => {
+  const token = `${process.pid} ${randomUUID()}`;
+  const deadline = Date.now() + WAIT_LIMIT_MS;
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, token, { flag: "wx" });
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    const holder = await fs.readFile(lockPath, "utf8").catch(() => null);
+    const pid = Number.parseInt(holder ?? "", 10);
+    if (holder !== null && pid > 0 && !isAlive(pid)) {
+      // Re-read first so a lock another waiter just took over is left alone.
+      if ((await fs.readFile(lockPath, "utf8").catch(() => null)) === holder) {
+        await fs.rm(lockPath, { force: true });
+      }
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for the workspace lock.");
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_MS));
+  }
+};
+
+const releaseFileLock = async (lockPath: string, token: string) => {
+  if ((await fs.readFile(lockPath, "utf8").catch(() => null)) === token) {
+    await fs.rm(lockPath, { force: true });
+  }
+};
+
+/**
+ * Runs `task` once earlier tasks for the same workspace have settled. Tasks
+ * in one process queue in memory; across processes (the API and the run
+ * worker) they also hold a lock file in the workspace root, so runs and
+ * edits never write a workspace's docs at once.
+ */
+export const withWorkspaceLock = <T>(workspaceRoot: string, task: () => Promise<T>) => {
+  const key = path.resolve(workspaceRoot);
+  const lockPath = path.join(key, LOCK_FILE);
+  const locked = async () => {
+    const token = await acquireFileLock(lockPath);
+    try {
+      return await task();
+    } finally {
+      await releaseFileLock(lockPath, token);
+    }
+  };
+  const next = (locks.get(key) ?? Promise.resolve()).catch(() => undefined).then(locked);
+  locks.set(key, next);
+  const release = () => {
+    if (locks.get(key) === next) {
+      locks.delete(key);
+    }
+  };
+  next.then(release, release);
+  return next;
+};
@@ -0,0 +1,521 @@
+import { constants, inflateSync } from "node:zlib";
+import { inflateCapped } from "./zip.js";
+
+type PdfValue =
+  | { kind: "number"; value: number }
+  | { kind: "name"; value: string }
+  | { kind: "string"; value: Buffer }
+  | { kind: "ref"; id: number }
+  | { kind: "array"; items: PdfValue[] }
+  | { kind: "dict"; entries: Map<string, PdfValue> }
+  /** Booleans, null and content-stream operators. */
+  | { kind: "keyword"; value: string };
+
+type PdfObject = { value: PdfValue; stream?: Buffer };
+
+type PdfFont = {
+  /** Bytes per character code: 2 for composite (Type0) fonts, 1 otherwise. */
+  codeLength: number;
+  toUnicode: Map<number, string> | null;
+};
+
+export type PdfText = {
+  /** Text of each page, one entry per text line. */
+  pages: string[][];
+  /** Pages with text in fonts that have no Unicode mapping, so it could not be extracted. */
+  unreadablePages: number[];
+};
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set(["(", ")", "<", ">", "[", "]", "{", "}", "/", "%"]);
+const OBJECT_HEADER = /(\d+)\s+\d+\s+obj\b/g;
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Reads PDF syntax from a latin1 string, where each character is one byte,
+ * so offsets line up with the file's bytes.
+ */
+const createLexer = (text: string, start = 0) => {
+  let pos = start;
+
+  const skipSpace = () => {
+    while (pos < text.length) {
+      if (WHITESPACE.has(text.charCodeAt(pos))) {
+        pos += 1;
+      } else if (text[pos] === "%") {
+        while (pos < text.length && text[pos] !== "\n" && text[pos] !== "\r") {
+          pos += 1;
+        }
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readWord = () => {
+    const from = pos;
+    while (
+      pos < text.length &&
+      !WHITESPACE.has(text.charCodeAt(pos)) &&
+      !DELIMITERS.has(text[pos])
+    ) {
+      pos += 1;
+    }
+    return text.slice(from, pos);
+  };
+
+  const readLiteralString = () => {
+    const bytes: number[] = [];
+    let depth = 1;
+    pos += 1;
+    while (pos < text.length) {
+      const char = text[pos];
+      pos += 1;
+      if (char === "\\") {
+        const next = text[pos];
+        pos += 1;
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+        if (next in escapes) {
+          bytes.push(escapes[next]);
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(text[pos])) {
+            octal += text[pos];
+            pos += 1;
+          }
+          bytes.push(Number.parseInt(octal, 8) & 0xff);
+        } else if (next === "\r") {
+          pos += text[pos] === "\n" ? 1 : 0;
+        } else if (next !== "\n") {
+          bytes.push(next.charCodeAt(0));
+        }
+      } else if (char === "(") {
+        depth += 1;
+        bytes.push(0x28);
+      } else if (char === ")") {
+        depth -= 1;
+        if (depth === 0) {
+          break;
+        }
+        bytes.push(0x29);
+      } else {
+        bytes.push(char.charCodeAt(0));
+      }
+    }
+    return Buffer.from(bytes);
+  };
+
+  const readHexString = () => {
+    const close = text.indexOf(">", pos);
+    const end = close < 0 ? text.length : close;
+    const hex = text.slice(pos + 1, end).replace(/[^0-9a-fA-F]/g, "");
+    pos = end + 1;
+    return Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex");
+  };
+
+  const readValue = (): PdfValue | null => {
+    skipSpace();
+    if (pos >= text.length) {
+      return null;
+    }
+    const char = text[pos];
+    if (text.startsWith("<<", pos)) {
+      pos += 2;
+      const entries = new Map<string, PdfValue>();
+      for (skipSpace(); pos < text.length && !text.startsWith(">>", pos); skipSpace()) {
+        const key = readValue();
+        const value = readValue();
+        if (key?.kind !== "name" || !value) {
+          break;
+        }
+        entries.set(key.value, value);
+      }
+      pos += 2;
+      return { kind: "dict", entries };
+    }
+    if (char === "<") {
+      return { kind: "string", value: readHexString() };
+    }
+    if (char === "(") {
+      return { kind: "string", value: readLiteralString() };
+    }
+    if (char === "[") {
+      pos += 1;
+      const items: PdfValue[] = [];
+      for (skipSpace(); pos < text.length && text[pos] !== "]"; skipSpace()) {
+        const item = readValue();
+        if (!item) {
+          break;
+        }
+        items.push(item);
+      }
+      pos += 1;
+      return { kind: "array", items };
+    }
+    if (char === "/") {
+      pos += 1;
+      const name = readWord().replace(/#([0-9a-fA-F]{2})/g, (_match, hex: string) =>
+        String.fromCharCode(Number.parseInt(hex, 16))
+      );
+      return { kind: "name", value: name };
+    }
+    if (DELIMITERS.has(char)) {
+      pos += 1;
+      return { kind: "keyword", value: char };
+    }
+    const word = readWord();
+    if (!NUMBER.test(word)) {
+      return { kind: "keyword", value: word };
+    }
+    const reference = /^\s+(\d+)\s+R(?![^\s/<>[\]()%])/.exec(text.slice(pos, pos + 32));
+    if (/^\d+$/.test(word) && reference) {
+      pos += reference[0].length;
+      return { kind: "ref", id: Number(word) };
+    }
+    return { kind: "number", value: Number(word) };
+  };
+
+  /** Skips inline image data, which follows the `ID` operator up to `EI`. */
+  const skipInlineImage = () => {
+    const end = text.slice(pos).search(/\sEI(?![^\s/<>[\]()%])/);
+    pos = end < 0 ? text.length : pos + end + 3;
+  };
+
+  return {
+    readValue,
+    skipSpace,
+    skipInlineImage,
+    get pos() {
+      return pos;
+    },
+    set pos(value: number) {
+      pos = value;
+    }
+  };
+};
+
+const get = (value: PdfValue | undefined, key: string) =>
+  value?.kind === "dict" ? value.entries.get(key) : undefined;
+
+const nameOf = (value: PdfValue | undefined) => (value?.kind === "name" ? value.value : undefined);
+
+const numberOf = (value: PdfValue | undefined) =>
+  value?.kind === "number" ? value.value : undefined;
+
+const decodeAscii85 = (data: Buffer) => {
+  const text = data.toString("latin1").replace(/\s/g, "").replace(/^<~/, "").replace(/~>.*$/, "");
+  const bytes: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    const padded = [...group, ...Array(5 - group.length).fill(84)];
+    const value = padded.reduce((total, digit) => total * 85 + digit, 0);
+    for (let shift = 3; shift > 3 - count; shift -= 1) {
+      bytes.push(Math.floor(value / 256 ** shift) % 256);
+    }
+    group = [];
+  };
+  for (const char of text) {
+    if (char === "z" && group.length === 0) {
+      bytes.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      flush(4);
+    }
+  }
+  if (group.length > 0) {
+    flush(group.length - 1);
+  }
+  return Buffer.from(bytes);
+};
+
+/** Applies a stream's filters; returns null for filters we cannot decode (e.g. images). */
+const decodeStream = (object: PdfObject) => {
+  const filter = get(object.value, "Filter");
+  const filters =
+    filter?.kind === "array" ? filter.items.map(nameOf) : filter ? [nameOf(filter)] : [];
+  let data = object.stream ?? Buffer.alloc(0);
+  for (const name of filters) {
+    if (name === "FlateDecode") {
+      const compressed = data;
+      data = inflateCapped(
+        (maxOutputLength) =>
+          inflateSync(compressed, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength }),
+        "A compressed stream in the PDF"
+      );
+    } else if (name === "ASCIIHexDecode") {
+      data = Buffer.from(data.toString("latin1").replace(/[^0-9a-fA-F]/g, ""), "hex");
+    } else if (name === "ASCII85Decode") {
+      data = decodeAscii85(data);
+    } else {
+      return null;
+    }
+  }
+  return data;
+};
+
+/** Finds every `n 0 obj` in the file, including those packed in object streams. */
+const readObjects = (text: string, data: Buffer) => {
+  const objects = new Map<number, PdfObject>();
+  OBJECT_HEADER.lastIndex = 0;
+  for (let match = OBJECT_HEADER.exec(text); match; match = OBJECT_HEADER.exec(text)) {
+    const lexer = createLexer(text, match.index + match[0].length);
+    const value = lexer.readValue();
+    if (!value) {
+      continue;
+    }
+    lexer.skipSpace();
+    if (!text.startsWith("stream", lexer.pos)) {
+      objects.set(Number(match[1]), { value });
+      continue;
+    }
+    let start = lexer.pos + "stream".length;
+    start += text.startsWith("\r\n", start) ? 2 : text[start] === "\n" ? 1 : 0;
+    const length = numberOf(get(value, "Length"));
+    const declaredEnd = length === undefined ? -1 : start + length;
+    const end =
+      declaredEnd > 0 && text.slice(declaredEnd, declaredEnd + 12).includes("endstream")
+        ? declaredEnd
+        : text.indexOf("endstream", start);
+    if (end < 0) {
+      break;
+    }
+    objects.set(Number(match[1]), { value, stream: data.subarray(start, end) });
+    OBJECT_HEADER.lastIndex = end;
+  }
+
+  for (const object of Array.from(objects.values())) {
+    if (nameOf(get(object.value, "Type")) !== "ObjStm") {
+      continue;
+    }
+    const decoded = decodeStream(object)?.toString("latin1");
+    const first = numberOf(get(object.value, "First"));
+    const count = numberOf(get(object.value, "N")) ?? 0;
+    if (!decoded || first === undefined) {
+      continue;
+    }
+    const header = createLexer(decoded);
+    for (let index = 0; index < count; index += 1) {
+      const id = numberOf(header.readValue() ?? undefined);
+      const offset = numberOf(header.readValue() ?? undefined);
+      if (id === undefined || offset === undefined) {
+        break;
+      }
+      const value = createLexer(decoded, first + offset).readValue();
+      if (value && !objects.has(id)) {
+        objects.set(id, { value });
+      }
+    }
+  }
+  return objects;
+};
+
+const decodeUtf16 = (bytes: Buffer) => {
+  let result = "";
+  for (let index = 0; index + 1 < bytes.length; index += 2) {
+    result += String.fromCharCode(bytes.readUInt16BE(index));
+  }
+  return result;
+};
+
+/** Reads the `bfchar` and `bfrange` mappings of a ToUnicode CMap. */
+const parseToUnicode = (cmap: string) => {
+  const mapping = new Map<number, string>();
+  const hex = (value: string) => Buffer.from(value, "hex");
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      mapping.set(Number.parseInt(pair[1], 16), decodeUtf16(hex(pair[2])));
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const ranges = block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g
+    );
+    for (const [, low, high, target, list] of ranges) {
+      const from = Number.parseInt(low, 16);
+      const to = Math.min(Number.parseInt(high, 16), from + 0xffff);
+      if (list !== undefined) {
+        Array.from(list.matchAll(/<([0-9a-fA-F]*)>/g)).forEach((item, index) => {
+          mapping.set(from + index, decodeUtf16(hex(item[1])));
+        });
+        continue;
+      }
+      const base = hex(target ?? "");
+      for (let code = from; code <= to && base.length >= 2; code += 1) {
+        const bytes = Buffer.from(base);
+        const lastUnit = (bytes.readUInt16BE(bytes.length - 2) + code - from) & 0xffff;
+        bytes.writeUInt16BE(lastUnit, bytes.length - 2);
+        mapping.set(code, decodeUtf16(bytes));
+      }
+    }
+  }
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  return { mapping, codeLength: codespace ? Math.ceil(codespace[1].length / 2) : undefined };
+};
+
+const decodeText = (font: PdfFont | undefined, bytes: Buffer) => {
+  if (!font?.toUnicode) {
+    return font?.codeLength === 2 ? null : bytes.toString("latin1");
+  }
+  let result = "";
+  for (let index = 0; index + font.codeLength <= bytes.length; index += font.codeLength) {
+    const code = font.codeLength === 2 ? bytes.readUInt16BE(index) : bytes[index];
+    result += font.toUnicode.get(code) ?? (font.codeLength === 1 ? String.fromCharCode(code) : "");
+  }
+  return result;
+};
+
+/**
+ * Extracts the text of each page of a PDF, line by line, with no external
+ * tools. Handles compressed and object-stream PDFs and ToUnicode font maps;
+ * scanned pages, encrypted files and exotic encodings come out empty.
+ */
+export const extractPdfText = (data: Buffer): PdfText => {
+  const text = data.toString("latin1");
+  if (!text.startsWith("%PDF-")) {
+    throw new Error("File is not a PDF.");
+  }
+  if (/\/Encrypt\s/.test(text.slice(-4096))) {
+    throw new Error("Encrypted PDFs cannot be imported.");
+  }
+  const objects = readObjects(text, data);
+  const resolve = (value: PdfValue | undefined): PdfValue | undefined =>
+    value?.kind === "ref" ? objects.get(value.id)?.value : value;
+
+  const catalog = Array.from(objects.values()).find(
+    (object) => nameOf(get(object.value, "Type")) === "Catalog"
+  );
+  const pages: { contents: PdfValue[]; resources: PdfValue | undefined }[] = [];
+  const visited = new Set<PdfValue>();
+  const walk = (node: PdfValue | undefined, inherited: PdfValue | undefined) => {
+    if (!node || visited.has(node)) {
+      return;
+    }
+    visited.add(node);
+    const resources = resolve(get(node, "Resources")) ?? inherited;
+    const kids = resolve(get(node, "Kids"));
+    if (kids?.kind === "array") {
+      kids.items.forEach((kid) => walk(resolve(kid), resources));
+      return;
+    }
+    const contentsRef = get(node, "Contents");
+    const contents = resolve(contentsRef);
+    pages.push({
+      contents: contents?.kind === "array" ? contents.items : contentsRef ? [contentsRef] : [],
+      resources
+    });
+  };
+  walk(resolve(get(catalog?.value, "Pages")), undefined);
+
+  const fonts = new Map<PdfValue, PdfFont>();
+  const loadFont = (value: PdfValue | undefined) => {
+    const font = resolve(value);
+    if (!font) {
+      return undefined;
+    }
+    const cached = fonts.get(font);
+    if (cached) {
+      return cached;
+    }
+    const composite = nameOf(get(font, "Subtype")) === "Type0";
+    const toUnicodeRef = get(font, "ToUnicode");
+    const cmapObject = toUnicodeRef?.kind === "ref" ? objects.get(toUnicodeRef.id) : undefined;
+    const cmap = cmapObject ? decodeStream(cmapObject)?.toString("latin1") : undefined;
+    const parsed = cmap ? parseToUnicode(cmap) : null;
+    const loaded: PdfFont = {
+      codeLength: parsed?.codeLength ?? (composite ? 2 : 1),
+      toUnicode: parsed?.mapping.size ? parsed.mapping : null
+    };
+    fonts.set(font, loaded);
+    return loaded;
+  };
+
+  const unreadablePages: number[] = [];
+  const pageTexts = pages.map((page, pageIndex) => {
+    const fontTable = resolve(get(page.resources, "Font"));
+    const content = page.contents
+      .map((ref) => (ref.kind === "ref" ? objects.get(ref.id) : undefined))
+      .map((object) => (object ? decodeStream(object)?.toString("latin1") ?? "" : ""))
+      .join("\n");
+
+    const lines: string[] = [];
+    let line = "";
+    let font: PdfFont | undefined;
+    let lineY: number | null = null;
+    let y = 0;
+    let scaleY = 1;
+    let unreadable = false;
+    const breakLine = () => {
+      lines.push(line);
+      line = "";
+    };
+    const show = (bytes: Buffer) => {
+      const decoded = decodeText(font, bytes);
+      if (decoded === null) {
+        unreadable = true;
+      } else {
+        line += decoded;
+      }
+    };
+    const moveTo = (nextY: number, advancesX: boolean) => {
+      if (lineY !== null && Math.abs(nextY - lineY) > 1) {
+        breakLine();
+      } else if (advancesX && line && !line.endsWith(" ")) {
+        line += " ";
+      }
+      y = nextY;
+      lineY = nextY;
+    };
+
+    const lexer = createLexer(content);
+    let operands: PdfValue[] = [];
+    for (let value = lexer.readValue(); value; value = lexer.readValue()) {
+      if (value.kind !== "keyword") {
+        operands.push(value);
+        continue;
+      }
+      const operator = value.value;
+      const numbers = operands.map(numberOf);
+      const last = operands[operands.length - 1];
+      if (operator === "ID") {
+        lexer.skipInlineImage();
+      } else if (operator === "BT") {
+        y = 0;
+        scaleY = 1;
+      } else if (operator === "Tf") {
+        font = loadFont(get(fontTable, nameOf(operands[0]) ?? ""));
+      } else if (operator === "Tm") {
+        scaleY = numbers[3] ?? 1;
+        moveTo(numbers[5] ?? y, true);
+      } else if (operator === "Td" || operator === "TD") {
+        moveTo(y + (numbers[1] ?? 0) * scaleY, (numbers[0] ?? 0) > 0);
+      } else if (operator === "T*") {
+        breakLine();
+      } else if (operator === "Tj" && last?.kind === "string") {
+        show(last.value);
+      } else if ((operator === "'" || operator === '"') && last?.kind === "string") {
+        breakLine();
+        show(last.value);
+      } else if (operator === "TJ" && last?.kind === "array") {
+        for (const item of last.items) {
+          if (item.kind === "string") {
+            show(item.value);
+          } else if (item.kind === "number" && item.value < -200 && !line.endsWith(" ")) {
+            line += " ";
+          }
+        }
+      }
+      operands = [];
+    }
+    breakLine();
+    if (unreadable) {
+      unreadablePages.push(pageIndex + 1);
+    }
+    return lines
+      .map((item) => item.replace(/[\u0000-\u0008\u000b-\u001f]/g, "").replace(/\s+/g, " ").trim())
+      .filter(Boolean);
+  });
+
+  return { pages: pageTexts, unreadablePages };
+};
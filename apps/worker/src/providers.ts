@@ -0,0 +1,208 @@
+import fs from "node:fs/promises";
+import { execFileSync } from "node:child_process";
+import { query, type SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
+import { estimateTokens, type TokenUsage } from "./usage.js";
+
+export type ModelRequestKind = "plan" | "step" | "artifacts";
+
+export type ModelRequest = {
+  kind: ModelRequestKind;
+  prompt: string;
+  stepId?: string;
+  /** Overrides the provider's default model for this request. */
+  model?: string;
+  /** Receives the response text as it is generated. */
+  onDelta?: (text: string) => void;
+};
+
+export type ModelResponse =
+  | { ok: true; text: string; usage?: TokenUsage }
+  | { ok: false; errors: string[]; usage?: TokenUsage };
+
+export type ModelProvider = {
+  name: string;
+  complete: (request: ModelRequest) => Promise<ModelResponse>;
+};
+
+export type ClaudeProviderOptions = {
+  model?: string;
+  pathToClaudeCodeExecutable?: string;
+};
+
+export type MockScriptEntry = string | ModelResponse;
+
+export type MockScript = Partial<Record<ModelRequestKind, MockScriptEntry[]>>;
+
+export type MockProvider = ModelProvider & {
+  calls: ModelRequest[];
+};
+
+export const DEFAULT_MODEL = "claude-3-5-sonnet-latest";
+
+const resolveClaudeExecutable = () => {
+  if (process.env.CLAUDE_CODE_PATH) {
+    return process.env.CLAUDE_CODE_PATH;
+  }
+  try {
+    return execFileSync("which", ["claude"], { encoding: "utf8" }).trim();
+  } catch {
+    return "claude";
+  }
+};
+
+export const createClaudeProvider = ({
+  model = DEFAULT_MODEL,
+  pathToClaudeCodeExecutable
+}: ClaudeProviderOptions = {}): ModelProvider => ({
+  name: "claude",
+  complete: async ({ prompt, onDelta, model: requestModel }) => {
+    // Partial messages carry the text deltas of each turn as it is generated.
+    // They are a live preview only: the saved text is the session's final result.
+    const messages = query({
+      prompt,
+      options: {
+        model: requestModel ?? model,
+        pathToClaudeCodeExecutable: pathToClaudeCodeExecutable ?? resolveClaudeExecutable(),
+        permissionMode: "dontAsk",
+        includePartialMessages: true,
+        env: process.env
+      }
+    });
+    let result: SDKResultMessage | null = null;
+    for await (const message of messages) {
+      if (message.type === "stream_event" && !message.parent_tool_use_id) {
+        const { event } = message;
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          onDelta?.(event.delta.text);
+        }
+      } else if (message.type === "result") {
+        result = message;
+        break;
+      }
+    }
+    if (!result) {
+      return { ok: false, errors: ["The model session ended without a result."] };
+    }
+
+    const usage: TokenUsage = {
+      inputTokens:
+        (result.usage?.input_tokens ?? 0) +
+        (result.usage?.cache_creation_input_tokens ?? 0) +
+        (result.usage?.cache_read_input_tokens ?? 0),
+      outputTokens: result.usage?.output_tokens ?? 0,
+      costUsd: result.total_cost_usd ?? 0
+    };
+
+    if (result.subtype !== "success") {
+      return { ok: false, errors: result.errors ?? [], usage };
+    }
+    return { ok: true, text: result.result ?? "", usage };
+  }
+});
+
+const defaultMockResponse = (request: ModelRequest): ModelResponse => {
+  if (request.kind === "plan") {
+    return {
+      ok: true,
+      text: JSON.stringify({
+        interpretedGoal: "Mock plan",
+        steps: [
+          {
+            title: "Review workspace context",
+            description: "Scan the workspace documents for relevant facts.",
+            agent: "Researcher"
+          },
+          {
+            title: "Draft the deliverable",
+            description: "Write the main deliverable from the research notes.",
+            agent: "Writer"
+          }
+        ],
+        agents: [
+          { name: "Researcher", role: "Researcher" },
+          { name: "Writer", role: "Writer" }
+        ],
+        outputs: ["Brief.md"],
+        questions: []
+      })
+    };
+  }
+  if (request.kind === "step") {
+    return { ok: true, text: `- Mock notes for ${request.stepId ?? "step"}.` };
+  }
+  const planned = request.prompt.match(/^Planned outputs: (.+)\.$/m)?.[1].split(", ") ?? [];
+  return {
+    ok: true,
+    text: JSON.stringify({
+      artifacts: planned.map((output) => ({
+        path: output,
+        content: `# ${output.replace(/\.md$/i, "")}\n\nMock content for ${output}.\n`
+      }))
+    })
+  };
+};
+
+/** Replays a scripted response to `onDelta` word by word, like a live stream. */
+const streamMockText = (request: ModelRequest, response: ModelResponse) => {
+  if (response.ok && request.onDelta) {
+    for (const word of response.text.match(/\S+\s*|\s+/g) ?? []) {
+      request.onDelta(word);
+    }
+  }
+  return response;
+};
+
+const withMockUsage = (request: ModelRequest, response: ModelResponse): ModelResponse => ({
+  ...response,
+  usage: response.usage ?? {
+    inputTokens: estimateTokens(request.prompt),
+    outputTokens: response.ok ? estimateTokens(response.text) : 0,
+    costUsd: 0
+  }
+});
+
+/**
+ * Deterministic provider for offline runs. Each request kind consumes its own
+ * queue of scripted responses in order; once a queue is exhausted its last
+ * entry repeats, and kinds without a script get a built-in default. Usage is
+ * estimated from prompt and response length at zero cost, and responses are
+ * streamed word by word to `onDelta`.
+ */
+export const createMockProvider = (script: MockScript = {}): MockProvider => {
+  const cursors = new Map<ModelRequestKind, number>();
+  const calls: ModelRequest[] = [];
+
+  return {
+    name: "mock",
+    calls,
+    complete: async (request) => {
+      calls.push(request);
+      const entries = script[request.kind] ?? [];
+      if (entries.length === 0) {
+        return withMockUsage(request, streamMockText(request, defaultMockResponse(request)));
+      }
+      const cursor = cursors.get(request.kind) ?? 0;
+      cursors.set(request.kind, cursor + 1);
+      const entry = entries[Math.min(cursor, entries.length - 1)];
+      const response: ModelResponse = typeof entry === "string" ? { ok: true, text: entry } : entry;
+      return withMockUsage(request, streamMockText(request, response));
+    }
+  };
+};
+
+/**
+ * Picks the provider from MODEL_PROVIDER ("claude" or "mock"). The mock
+ * provider reads its script from the JSON file at MOCK_PROVIDER_SCRIPT when set.
+ */
+export const createProviderFromEnv = async (
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ModelProvider> => {
+  if ((env.MODEL_PROVIDER ?? "claude").toLowerCase() !== "mock") {
+    return createClaudeProvider();
+  }
+  if (!env.MOCK_PROVIDER_SCRIPT) {
+    return createMockProvider();
+  }
+  const raw = await fs.readFile(env.MOCK_PROVIDER_SCRIPT, "utf8");
+  return createMockProvider(JSON.parse(raw) as MockScript);
+};
@@ -0,0 +1,203 @@
+import { estimateTokens } from "./usage.js";
+
+export type DocChunk = {
+  id: string;
+  path: string;
+  heading: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+  tokens: number;
+};
+
+export type ChunkReference = {
+  id: string;
+  path: string;
+  heading: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+};
+
+export type ScoredChunk = {
+  chunk: DocChunk;
+  score: number;
+};
+
+export type ChunkIndex = {
+  chunks: DocChunk[];
+  search: (query: string, limit?: number) => ScoredChunk[];
+};
+
+export const MAX_CHUNK_TOKENS = 300;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have if in into is it its of on or so " +
+    "that the their then there these this to was were will with what which who how " +
+    "we you they our your can should would could about all any not no do does"
+  ).split(" ")
+);
+
+/** Lowercases a single word and folds simple plurals so "notes" matches "note". */
+export const normalizeTerm = (word: string) => {
+  const lower = word.toLowerCase();
+  const plural = lower.length > 3 && lower.endsWith("s") && !lower.endsWith("ss");
+  return plural ? lower.slice(0, -1) : lower;
+};
+
+export const isStopword = (word: string) => STOPWORDS.has(word.toLowerCase());
+
+/** Splits on non-word characters, drops stopwords and normalizes each term. */
+export const tokenize = (text: string) =>
+  (text.match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => word.length > 1 && !isStopword(word))
+    .map(normalizeTerm);
+
+/**
+ * Splits a markdown document into chunks that start at headings and stay under
+ * `maxTokens`, breaking at blank lines where possible. Line numbers are 1-based
+ * and inclusive.
+ */
+export const chunkDocument = (docPath: string, content: string, maxTokens = MAX_CHUNK_TOKENS) => {
+  const lines = content.split("\n");
+  const chunks: DocChunk[] = [];
+  let heading = "";
+  let buffer: string[] = [];
+  let start = 1;
+
+  const flush = () => {
+    while (buffer.length > 0 && !buffer[buffer.length - 1].trim()) {
+      buffer.pop();
+    }
+    const end = start + buffer.length - 1;
+    const text = buffer.join("\n").trim();
+    if (text) {
+      chunks.push({
+        id: `${docPath}#L${start}-L${end}`,
+        path: docPath,
+        heading,
+        startLine: start,
+        endLine: end,
+        text,
+        tokens: estimateTokens(text)
+      });
+    }
+    buffer = [];
+  };
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const headingMatch = line.match(/^#{1,6}\s+(.*)$/);
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[1].trim();
+    }
+    if (buffer.length === 0) {
+      if (!line.trim()) {
+        return;
+      }
+      start = lineNumber;
+    }
+    buffer.push(line);
+    const size = estimateTokens(buffer.join("\n"));
+    if (size >= maxTokens || (size >= maxTokens / 2 && !line.trim())) {
+      flush();
+    }
+  });
+  flush();
+
+  return chunks;
+};
+
+/** Builds an in-memory BM25 index over the chunks. */
+export const createChunkIndex = (chunks: DocChunk[]): ChunkIndex => {
+  const termFrequencies = chunks.map((chunk) => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(`${chunk.heading}\n${chunk.text}`)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+  });
+  const lengths = termFrequencies.map((counts) =>
+    Array.from(counts.values()).reduce((sum, count) => sum + count, 0)
+  );
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / (chunks.length || 1);
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termFrequencies) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+  };
+
+  const search = (query: string, limit = chunks.length) => {
+    const terms = Array.from(new Set(tokenize(query)));
+    const scored: ScoredChunk[] = [];
+    chunks.forEach((chunk, index) => {
+      const counts = termFrequencies[index];
+      let score = 0;
+      for (const term of terms) {
+        const frequency = counts.get(term) ?? 0;
+        if (frequency === 0) {
+          continue;
+        }
+        const norm = BM25_K1 * (1 - BM25_B + (BM25_B * lengths[index]) / (averageLength || 1));
+        score += (idf(term) * frequency * (BM25_K1 + 1)) / (frequency + norm);
+      }
+      if (score > 0) {
+        scored.push({ chunk, score });
+      }
+    });
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+  };
+
+  return { chunks, search };
+};
+
+/**
+ * Picks the highest-scoring chunks for a query until the token budget is
+ * spent. When nothing matches, the opening chunk of each document is used so
+ * the agent still sees what the workspace contains. Results come back in
+ * document order.
+ */
+export const selectChunks = (index: ChunkIndex, query: string, tokenBudget: number) => {
+  const ranked = index.search(query);
+  const candidates = ranked.length
+    ? ranked
+    : index.chunks
+        .filter(
+          (chunk, position, all) => all.findIndex((other) => other.path === chunk.path) === position
+        )
+        .map((chunk) => ({ chunk, score: 0 }));
+
+  const selected: ScoredChunk[] = [];
+  let used = 0;
+  for (const candidate of candidates) {
+    if (used + candidate.chunk.tokens > tokenBudget) {
+      continue;
+    }
+    selected.push(candidate);
+    used += candidate.chunk.tokens;
+  }
+
+  return selected.sort(
+    (a, b) => a.chunk.path.localeCompare(b.chunk.path) || a.chunk.startLine - b.chunk.startLine
+  );
+};
+
+export const toChunkReference = ({ chunk, score }: ScoredChunk): ChunkReference => ({
+  id: chunk.id,
+  path: chunk.path,
+  heading: chunk.heading,
+  startLine: chunk.startLine,
+  endLine: chunk.endLine,
+  score: Math.round(score * 1000) / 1000
+});
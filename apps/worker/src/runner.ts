@@ -0,0 +1,24 @@
+/**
+ * Entry point of the worker process. The API forks it and exchanges
+ * `WorkerCommand` / `WorkerMessage` objects over the IPC channel, so the
+ * worker can be restarted without restarting the API.
+ */
+import { createJobRunner, type WorkerCommand, type WorkerMessage } from "./jobs.js";
+import { createProviderFromEnv } from "./providers.js";
+
+if (!process.send) {
+  console.error("The worker runner must be started by the API with an IPC channel.");
+  process.exit(1);
+}
+
+const send = (message: WorkerMessage) => {
+  process.send?.(message);
+};
+
+const runner = createJobRunner({ provider: await createProviderFromEnv(), send });
+
+process.on("message", (command) => runner.handle(command as WorkerCommand));
+// Without the API there is nobody to report to, so stop instead of lingering.
+process.on("disconnect", () => process.exit(0));
+
+send({ type: "ready" });
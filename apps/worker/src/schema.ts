@@ -0,0 +1,203 @@
+export type SchemaIssue = {
+  /** Location in the payload, e.g. `steps[2].agent`; empty for the payload itself. */
+  path: string;
+  message: string;
+};
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+export type PlanPayload = {
+  interpretedGoal: string;
+  /** `dependsOn` is left out when the planner did not declare dependencies. */
+  steps: { title: string; description: string; agent: string; dependsOn?: number[] }[];
+  agents: { name: string; role: string }[];
+  outputs: string[];
+  questions: string[];
+};
+
+export type ArtifactPayload = {
+  artifacts: { path: string; content: string }[];
+};
+
+export type PlanLimits = {
+  maxSteps: number;
+  maxAgents: number;
+  maxQuestions: number;
+  roles: string[];
+};
+
+const FENCED_JSON = /^```(?:json)?\s*\n([\s\S]*?)\n```$/;
+
+export const formatIssues = (issues: SchemaIssue[]) =>
+  issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`).join("\n");
+
+/** Parses a reply that must be a single JSON value, optionally inside one ```json fence. */
+export const parseJsonReply = (text: string): Validation<unknown> => {
+  const trimmed = text.trim();
+  const body = trimmed.match(FENCED_JSON)?.[1] ?? trimmed;
+  try {
+    return { ok: true, value: JSON.parse(body) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "invalid JSON";
+    return { ok: false, issues: [{ path: "", message: `reply is not valid JSON (${reason})` }] };
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return "nothing";
+  }
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  return typeof value === "object" ? "an object" : `a ${typeof value}`;
+};
+
+/** Collects issues while reading fields, so one pass reports every problem. */
+const createReader = () => {
+  const issues: SchemaIssue[] = [];
+  const report = (path: string, message: string) => {
+    issues.push({ path, message });
+  };
+
+  const string = (value: unknown, path: string, { required = true } = {}) => {
+    if (typeof value !== "string") {
+      report(path, `expected a string, got ${describe(value)}`);
+      return "";
+    }
+    if (required && !value.trim()) {
+      report(path, "must not be empty");
+    }
+    return value;
+  };
+
+  const array = (value: unknown, path: string, min: number, max: number) => {
+    if (!Array.isArray(value)) {
+      report(path, `expected an array, got ${describe(value)}`);
+      return [];
+    }
+    if (value.length < min) {
+      report(path, `expected at least ${min} item${min === 1 ? "" : "s"}`);
+    }
+    if (value.length > max) {
+      report(path, `expected at most ${max} items, got ${value.length}`);
+    }
+    return value.slice(0, max);
+  };
+
+  const record = (value: unknown, path: string) => {
+    if (!isRecord(value)) {
+      report(path, `expected an object, got ${describe(value)}`);
+      return {};
+    }
+    return value;
+  };
+
+  return { issues, report, string, array, record };
+};
+
+const isMarkdownPath = (value: string) =>
+  value.trim().toLowerCase().endsWith(".md") && !value.includes("..");
+
+/**
+ * Checks the planner's reply. `dependsOn` holds 1-based numbers of earlier
+ * steps, so a valid plan cannot contain a dependency cycle.
+ */
+export const validatePlanPayload = (
+  value: unknown,
+  limits: PlanLimits
+): Validation<PlanPayload> => {
+  const read = createReader();
+  const root = read.record(value, "");
+  const interpretedGoal = read.string(root.interpretedGoal, "interpretedGoal");
+
+  const agents = read.array(root.agents, "agents", 1, limits.maxAgents).map((item, index) => {
+    const agent = read.record(item, `agents[${index}]`);
+    const name = read.string(agent.name, `agents[${index}].name`);
+    const role = read.string(agent.role, `agents[${index}].role`);
+    const known = limits.roles.some((option) => option.toLowerCase() === role.trim().toLowerCase());
+    if (role.trim() && !known) {
+      read.report(
+        `agents[${index}].role`,
+        `"${role}" is not an available archetype (${limits.roles.join(", ")})`
+      );
+    }
+    return { name, role };
+  });
+  const agentNames = new Set(agents.map((agent) => agent.name));
+
+  const steps = read.array(root.steps, "steps", 1, limits.maxSteps).map((item, index) => {
+    const path = `steps[${index}]`;
+    const step = read.record(item, path);
+    const agent = read.string(step.agent, `${path}.agent`);
+    if (agent.trim() && !agentNames.has(agent)) {
+      read.report(`${path}.agent`, `"${agent}" is not one of the plan's agents`);
+    }
+    const dependsOn =
+      step.dependsOn === undefined
+        ? undefined
+        : read.array(step.dependsOn, `${path}.dependsOn`, 0, limits.maxSteps).flatMap(
+            (dependency, position) => {
+              if (!Number.isInteger(dependency) || (dependency as number) < 1) {
+                read.report(`${path}.dependsOn[${position}]`, "expected a step number");
+                return [];
+              }
+              if ((dependency as number) > index) {
+                read.report(
+                  `${path}.dependsOn[${position}]`,
+                  `step ${index + 1} can only depend on earlier steps`
+                );
+                return [];
+              }
+              return [dependency as number];
+            }
+          );
+    return {
+      title: read.string(step.title, `${path}.title`),
+      description: read.string(step.description, `${path}.description`, { required: false }),
+      agent,
+      ...(dependsOn ? { dependsOn } : {})
+    };
+  });
+
+  const outputs = read.array(root.outputs, "outputs", 1, Infinity).map((item, index) => {
+    const output = read.string(item, `outputs[${index}]`);
+    if (output.trim() && !isMarkdownPath(output)) {
+      read.report(`outputs[${index}]`, "expected a markdown file name ending in .md");
+    }
+    return output;
+  });
+
+  const questions =
+    root.questions === undefined
+      ? []
+      : read
+          .array(root.questions, "questions", 0, limits.maxQuestions)
+          .map((item, index) => read.string(item, `questions[${index}]`));
+
+  return read.issues.length > 0
+    ? { ok: false, issues: read.issues }
+    : { ok: true, value: { interpretedGoal, steps, agents, outputs, questions } };
+};
+
+export const validateArtifactPayload = (value: unknown): Validation<ArtifactPayload> => {
+  const read = createReader();
+  const root = read.record(value, "");
+  const artifacts = read.array(root.artifacts, "artifacts", 1, Infinity).map((item, index) => {
+    const artifact = read.record(item, `artifacts[${index}]`);
+    const path = read.string(artifact.path, `artifacts[${index}].path`);
+    if (path.trim() && !isMarkdownPath(path)) {
+      read.report(`artifacts[${index}].path`, "expected a markdown file name ending in .md");
+    }
+    const content = read.string(artifact.content, `artifacts[${index}].content`, {
+      required: false
+    });
+    return { path, content };
+  });
+  return read.issues.length > 0
+    ? { ok: false, issues: read.issues }
+    : { ok: true, value: { artifacts } };
+};
@@ -0,0 +1,81 @@
+type ContextStep = {
+  id: string;
+  dependsOn?: string[];
+};
+
+type ContextResult = {
+  stepId: string;
+  title: string;
+  agent: string;
+  output: string;
+};
+
+export type StepContextEntry = ContextResult & {
+  summarized: boolean;
+};
+
+/** Collects every step the given step depends on, directly or transitively, in plan order. */
+export const collectAncestorIds = (stepId: string, steps: ContextStep[]) => {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const seen = new Set<string>();
+  const queue = [...(byId.get(stepId)?.dependsOn ?? [])];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (seen.has(id) || id === stepId) {
+      continue;
+    }
+    seen.add(id);
+    queue.push(...(byId.get(id)?.dependsOn ?? []));
+  }
+  return steps.map((step) => step.id).filter((id) => seen.has(id));
+};
+
+/**
+ * Shrinks a step output to roughly `limit` characters without a model call.
+ * Headings and list items are kept first since they carry most of the
+ * structure, then remaining lines fill what is left of the budget.
+ */
+export const summarizeOutput = (output: string, limit: number) => {
+  if (output.length <= limit) {
+    return output;
+  }
+  const lines = output.split("\n").filter((line) => line.trim());
+  const isKey = (line: string) => /^\s*(#{1,6}\s|[-*+]\s|\d+\.\s)/.test(line);
+  const picked = new Set<number>();
+  let used = 0;
+  for (const pass of [true, false]) {
+    lines.forEach((line, index) => {
+      if (picked.has(index) || isKey(line) !== pass || used + line.length + 1 > limit) {
+        return;
+      }
+      picked.add(index);
+      used += line.length + 1;
+    });
+  }
+  const kept = lines.filter((_, index) => picked.has(index)).join("\n");
+  return `${kept}\n[Summarized: ${output.length - kept.length} characters omitted]`;
+};
+
+/**
+ * Gathers the outputs of a step's dependencies for its prompt. The character
+ * budget is split evenly across entries; outputs over their share are summarized.
+ */
+export const buildStepContext = (
+  step: ContextStep,
+  steps: ContextStep[],
+  results: ContextResult[],
+  budget: number
+): StepContextEntry[] => {
+  const ancestors = collectAncestorIds(step.id, steps);
+  const available = ancestors
+    .map((id) => results.find((result) => result.stepId === id))
+    .filter((result): result is ContextResult => Boolean(result));
+  if (available.length === 0) {
+    return [];
+  }
+  const share = Math.max(200, Math.floor(budget / available.length));
+  return available.map((result) => {
+    const output = summarizeOutput(result.output, share);
+    return { ...result, output, summarized: output !== result.output };
+  });
+};
@@ -0,0 +1,87 @@
+type GraphStep = {
+  id: string;
+  dependsOn?: string[];
+};
+
+/**
+ * Resolves the raw `dependsOn` values of each step to known step ids. Plans
+ * where no step declares dependencies keep their original strictly sequential
+ * meaning, so each step depends on the one before it.
+ */
+export const resolveDependencies = <T extends GraphStep>(
+  steps: T[]
+): (T & { dependsOn: string[] })[] => {
+  const declared = steps.some((step) => Array.isArray(step.dependsOn));
+  const ids = new Set(steps.map((step) => step.id));
+
+  return steps.map((step, index) => {
+    if (!declared) {
+      return { ...step, dependsOn: index > 0 ? [steps[index - 1].id] : [] };
+    }
+    const dependsOn = Array.from(
+      new Set((step.dependsOn ?? []).filter((id) => id !== step.id && ids.has(id)))
+    );
+    return { ...step, dependsOn };
+  });
+};
+
+/** Returns the step ids forming a dependency cycle, or null when the graph is acyclic. */
+export const findDependencyCycle = (steps: GraphStep[]): string[] | null => {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const state = new Map<string, "visiting" | "done">();
+  const trail: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done") {
+      return null;
+    }
+    if (state.get(id) === "visiting") {
+      return [...trail.slice(trail.indexOf(id)), id];
+    }
+    state.set(id, "visiting");
+    trail.push(id);
+    for (const dependency of byId.get(id)?.dependsOn ?? []) {
+      if (!byId.has(dependency)) {
+        continue;
+      }
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    trail.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+};
+
+export const assertAcyclic = (steps: GraphStep[]) => {
+  const cycle = findDependencyCycle(steps);
+  if (cycle) {
+    throw new Error(`Plan steps have a dependency cycle: ${cycle.join(" -> ")}.`);
+  }
+};
+
+/** Returns the given step ids plus every step that depends on them, directly or transitively. */
+export const findDependents = (steps: GraphStep[], ids: Iterable<string>) => {
+  const found = new Set(ids);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const step of steps) {
+      if (!found.has(step.id) && (step.dependsOn ?? []).some((id) => found.has(id))) {
+        found.add(step.id);
+        grew = true;
+      }
+    }
+  }
+  return found;
+};
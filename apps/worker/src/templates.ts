@@ -0,0 +1,71 @@
+import type { RunPlan } from "./index.js";
+
+export type PlanTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  plan: RunPlan;
+  /** Placeholder names used in the plan, in order of first use. */
+  variables: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TemplateInstance = { ok: true; plan: RunPlan } | { ok: false; missing: string[] };
+
+/** Matches `{{name}}` placeholders; names start with a letter. */
+export const TEMPLATE_VARIABLE = /\{\{\s*([A-Za-z][\w-]*)\s*\}\}/g;
+
+const templateTexts = (plan: RunPlan) => [
+  plan.interpretedGoal,
+  ...plan.steps.flatMap((step) => [step.title, step.description]),
+  ...plan.outputs,
+  ...plan.questions
+];
+
+export const findTemplateVariables = (plan: RunPlan) => {
+  const names = new Set<string>();
+  for (const text of templateTexts(plan)) {
+    for (const match of text.matchAll(TEMPLATE_VARIABLE)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+};
+
+const fill = (text: string, values: Map<string, string>) =>
+  text.replace(TEMPLATE_VARIABLE, (placeholder, name: string) => values.get(name) ?? placeholder);
+
+/**
+ * Replaces the placeholders in a template's goal, steps, outputs and
+ * questions. Every variable needs a non-empty value.
+ */
+export const instantiateTemplate = (
+  plan: RunPlan,
+  values: Record<string, string>
+): TemplateInstance => {
+  // A Map, so names such as `toString` are not found on the object prototype.
+  const filled = new Map(
+    Object.entries(values)
+      .map(([name, value]) => [name, String(value ?? "").trim()] as const)
+      .filter(([, value]) => value)
+  );
+  const missing = findTemplateVariables(plan).filter((name) => !filled.has(name));
+  if (missing.length > 0) {
+    return { ok: false, missing };
+  }
+  return {
+    ok: true,
+    plan: {
+      ...plan,
+      interpretedGoal: fill(plan.interpretedGoal, filled),
+      steps: plan.steps.map((step) => ({
+        ...step,
+        title: fill(step.title, filled),
+        description: fill(step.description, filled)
+      })),
+      outputs: plan.outputs.map((output) => fill(output, filled)),
+      questions: plan.questions.map((question) => fill(question, filled))
+    }
+  };
+};
@@ -0,0 +1,18 @@
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+export const emptyUsage = (): TokenUsage => ({ inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+export const addUsage = (total: TokenUsage, usage?: TokenUsage): TokenUsage => ({
+  inputTokens: total.inputTokens + (usage?.inputTokens ?? 0),
+  outputTokens: total.outputTokens + (usage?.outputTokens ?? 0),
+  costUsd: total.costUsd + (usage?.costUsd ?? 0)
+});
+
+export const totalTokens = (usage: TokenUsage) => usage.inputTokens + usage.outputTokens;
+
+/** Rough token count (about four characters per token) for budgeting before a call. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
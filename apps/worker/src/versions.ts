@@ -0,0 +1,196 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export type DocVersionKind = "user" | "run" | "external";
+
+export type DocVersion = {
+  id: number;
+  path: string;
+  kind: DocVersionKind;
+  author: string;
+  reason: string;
+  timestamp: string;
+  size: number;
+  deleted?: boolean;
+};
+
+export type VersionMeta = {
+  kind: DocVersionKind;
+  author: string;
+  reason: string;
+};
+
+export type DocConflict = {
+  path: string;
+  expectedHash: string | null;
+  currentHash: string | null;
+  currentContent: string | null;
+};
+
+export type WriteResult = { ok: true; version: DocVersion } | { ok: false; conflict: DocConflict };
+
+export type VersionStore = ReturnType<typeof createVersionStore>;
+
+const INDEX_FILE = "versions.jsonl";
+const EXTERNAL_AUTHOR = "external";
+
+/** Content hash used for ETags and change detection. */
+export const hashContent = (content: string) =>
+  createHash("sha256").update(content).digest("hex").slice(0, 32);
+
+/**
+ * File-backed version history for workspace docs. Every write through the
+ * store saves the new content as a numbered version under
+ * `<versionsRoot>/<doc path>/`, next to an append-only index with author,
+ * timestamp and reason. Content that changed on disk outside the store is
+ * snapshotted first, so no prior version is lost.
+ */
+export const createVersionStore = (docsRoot: string, versionsRoot: string) => {
+  const queues = new Map<string, Promise<unknown>>();
+
+  const historyDir = (docPath: string) => {
+    const resolved = path.resolve(versionsRoot, docPath);
+    if (!resolved.startsWith(path.resolve(versionsRoot) + path.sep)) {
+      throw new Error("Path escapes the version history.");
+    }
+    return resolved;
+  };
+
+  const enqueue = <T>(docPath: string, task: () => Promise<T>) => {
+    const next = (queues.get(docPath) ?? Promise.resolve()).catch(() => undefined).then(task);
+    queues.set(docPath, next);
+    return next;
+  };
+
+  const list = async (docPath: string): Promise<DocVersion[]> => {
+    const raw = await fs
+      .readFile(path.join(historyDir(docPath), INDEX_FILE), "utf8")
+      .catch(() => "");
+    return raw
+      .split("\n")
+      .filter(Boolean)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as DocVersion];
+        } catch {
+          return [];
+        }
+      });
+  };
+
+  const read = async (docPath: string, id: number) => {
+    const version = (await list(docPath)).find((entry) => entry.id === id);
+    if (!version) {
+      return null;
+    }
+    const content = version.deleted
+      ? ""
+      : await fs.readFile(path.join(historyDir(docPath), `${id}.md`), "utf8");
+    return { version, content };
+  };
+
+  const append = async (
+    docPath: string,
+    content: string,
+    meta: VersionMeta,
+    deleted = false
+  ): Promise<DocVersion> => {
+    const dir = historyDir(docPath);
+    const versions = await list(docPath);
+    const version: DocVersion = {
+      id: (versions[versions.length - 1]?.id ?? 0) + 1,
+      path: docPath,
+      kind: meta.kind,
+      author: meta.author,
+      reason: meta.reason,
+      timestamp: new Date().toISOString(),
+      size: content.length,
+      ...(deleted ? { deleted } : {})
+    };
+    await fs.mkdir(dir, { recursive: true });
+    if (!deleted) {
+      await fs.writeFile(path.join(dir, `${version.id}.md`), content, "utf8");
+    }
+    await fs.appendFile(path.join(dir, INDEX_FILE), `${JSON.stringify(version)}\n`, "utf8");
+    return version;
+  };
+
+  /** Records what is on disk now if the history does not already end with it. */
+  const captureCurrent = async (docPath: string) => {
+    const current = await fs.readFile(path.join(docsRoot, docPath), "utf8").catch(() => null);
+    if (current === null) {
+      return;
+    }
+    const versions = await list(docPath);
+    const latest = versions[versions.length - 1];
+    const latestContent = latest ? (await read(docPath, latest.id))?.content : undefined;
+    if (!latest || latest.deleted || latestContent !== current) {
+      await append(docPath, current, {
+        kind: "external",
+        author: EXTERNAL_AUTHOR,
+        reason: latest ? "Changed outside the notebook" : "Content before version history"
+      });
+    }
+  };
+
+  const writeNow = async (docPath: string, content: string, meta: VersionMeta) => {
+    await captureCurrent(docPath);
+    const target = path.join(docsRoot, docPath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content, "utf8");
+    return append(docPath, content, meta);
+  };
+
+  const removeNow = async (docPath: string, meta: VersionMeta) => {
+    await captureCurrent(docPath);
+    await fs.rm(path.join(docsRoot, docPath));
+    return append(docPath, "", meta, true);
+  };
+
+  /**
+   * Runs a write only if the doc still has the expected hash; `null` expects
+   * the doc not to exist and `*` accepts any existing content.
+   */
+  const whenMatching = (
+    docPath: string,
+    expectedHash: string | null,
+    task: () => Promise<DocVersion>
+  ) =>
+    enqueue(docPath, async (): Promise<WriteResult> => {
+      const current = await fs.readFile(path.join(docsRoot, docPath), "utf8").catch(() => null);
+      const currentHash = current === null ? null : hashContent(current);
+      const matches = expectedHash === "*" ? currentHash !== null : currentHash === expectedHash;
+      if (!matches) {
+        return {
+          ok: false,
+          conflict: { path: docPath, expectedHash, currentHash, currentContent: current }
+        };
+      }
+      return { ok: true, version: await task() };
+    });
+
+  const write = (docPath: string, content: string, meta: VersionMeta) =>
+    enqueue(docPath, () => writeNow(docPath, content, meta));
+
+  const remove = (docPath: string, meta: VersionMeta) =>
+    enqueue(docPath, () => removeNow(docPath, meta));
+
+  const writeIfMatch = (
+    docPath: string,
+    content: string,
+    meta: VersionMeta,
+    expectedHash: string | null
+  ) => whenMatching(docPath, expectedHash, () => writeNow(docPath, content, meta));
+
+  const removeIfMatch = (docPath: string, meta: VersionMeta, expectedHash: string | null) =>
+    whenMatching(docPath, expectedHash, () => removeNow(docPath, meta));
+
+  /** Content most recently written by a run, used as the base when merging user edits. */
+  const readLatestRunVersion = async (docPath: string) => {
+    const latest = (await list(docPath)).reverse().find((version) => version.kind === "run");
+    return latest && !latest.deleted ? read(docPath, latest.id) : null;
+  };
+
+  return { list, read, write, remove, writeIfMatch, removeIfMatch, readLatestRunVersion };
+};
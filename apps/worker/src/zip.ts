@@ -0,0 +1,139 @@
+import { deflateRawSync, inflateRawSync } from "node:zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+/** Largest ZIP entry or PDF stream we inflate, so a small file cannot expand without bound. */
+export const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+/** Runs a zlib inflate capped at `MAX_INFLATED_BYTES`, reporting the cap as a plain Error. */
+export const inflateCapped = (inflate: (maxOutputLength: number) => Buffer, what: string) => {
+  try {
+    return inflate(MAX_INFLATED_BYTES);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(`${what} expands to more than ${MAX_INFLATED_BYTES / 1024 / 1024} MB.`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Reads the stored and deflated entries of a ZIP archive (such as the parts
+ * of a .docx file) by name. Entries are inflated when first read.
+ */
+export const readZip = (data: Buffer) => {
+  let end = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 65_557); offset -= 1) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("File is not a ZIP archive.");
+  }
+
+  const entries = new Map<string, { method: number; offset: number; size: number }>();
+  let offset = data.readUInt32LE(end + 16);
+  for (let index = data.readUInt16LE(end + 10); index > 0; index -= 1) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("ZIP archive is corrupt.");
+    }
+    const nameLength = data.readUInt16LE(offset + 28);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      method: data.readUInt16LE(offset + 10),
+      size: data.readUInt32LE(offset + 20),
+      offset: data.readUInt32LE(offset + 42)
+    });
+    offset += 46 + nameLength + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+  }
+
+  /** Returns an entry's bytes, or null when it is missing or uses an unsupported compression. */
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    if (!entry || data.readUInt32LE(entry.offset) !== LOCAL_FILE_HEADER) {
+      return null;
+    }
+    const headerLength =
+      30 + data.readUInt16LE(entry.offset + 26) + data.readUInt16LE(entry.offset + 28);
+    const start = entry.offset + headerLength;
+    const raw = data.subarray(start, start + entry.size);
+    if (entry.method === 0) {
+      return raw;
+    }
+    if (entry.method !== 8) {
+      return null;
+    }
+    return inflateCapped((maxOutputLength) => inflateRawSync(raw, { maxOutputLength }), name);
+  };
+
+  return { names: Array.from(entries.keys()), read };
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_unused, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Packs entries into a deflated ZIP archive with UTF-8 names, in the given order. */
+export const writeZip = (entries: { name: string; data: Buffer }[], modified = new Date()) => {
+  const time =
+    (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+  const date =
+    ((Math.max(modified.getFullYear(), 1980) - 1980) << 9) |
+    ((modified.getMonth() + 1) << 5) |
+    modified.getDate();
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const compressed = deflateRawSync(entry.data);
+    // Version, UTF-8 flag, deflate, time, date, CRC and sizes, shared by both headers.
+    const shared = Buffer.alloc(26);
+    shared.writeUInt16LE(20, 0);
+    shared.writeUInt16LE(0x0800, 2);
+    shared.writeUInt16LE(8, 4);
+    shared.writeUInt16LE(time, 6);
+    shared.writeUInt16LE(date, 8);
+    shared.writeUInt32LE(crc32(entry.data), 10);
+    shared.writeUInt32LE(compressed.length, 14);
+    shared.writeUInt32LE(entry.data.length, 18);
+    shared.writeUInt16LE(name.length, 22);
+
+    const local = Buffer.alloc(4);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    locals.push(local, shared, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    central.writeUInt16LE(20, 4);
+    shared.copy(central, 6);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
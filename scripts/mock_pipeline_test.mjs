@@ -0,0 +1,613 @@
+import { appendFileSync } from "node:fs";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { deflateSync } from "node:zlib";
+import {
+  createJobRunner,
+  createMockProvider,
+  createPlan,
+  convertInThread,
+  convertToMarkdown,
+  createVersionStore,
+  exportBundle,
+  findTemplateVariables,
+  formatProvenance,
+  instantiateTemplate,
+  isRefusalReply,
+  pageAtLine,
+  readProvenance,
+  readZip,
+  runAgent,
+  selectCheckpoints,
+  withWorkspaceLock
+} from "../apps/worker/dist/index.js";
+import { tsImport } from "tsx/esm/api";
+
+const fail = (message) => {
+  console.error(`Mock pipeline failed: ${message}`);
+  process.exit(1);
+};
+
+const run = async () => {
+  const workspaceRoot = await fs.mkdtemp(path.join(os.tmpdir(), "mvp-mock-"));
+  try {
+    await fs.mkdir(path.join(workspaceRoot, "docs"), { recursive: true });
+    await fs.writeFile(
+      path.join(workspaceRoot, "docs", "notes.md"),
+      "# Notes\n\nThe client wants a launch brief.\n",
+      "utf8"
+    );
+
+    const provider = createMockProvider({
+      step: ["- Found launch context in notes.md.", "- Drafted the brief."],
+      artifacts: [
+        JSON.stringify({
+          artifacts: [{ path: "Brief.md", content: "# Brief\n\nLaunch brief [[notes.md#L3]] and [[missing.md#L1-L2]]." }]
+        })
+      ]
+    });
+
+    const prompt = "Draft a launch brief.";
+    const plan = await createPlan({ prompt, workspaceRoot, provider });
+    if (plan.steps.length !== 2) {
+      fail(`expected 2 planned steps, got ${plan.steps.length}`);
+    }
+
+    const streamed = {};
+    const result = await runAgent({
+      prompt,
+      plan,
+      workspaceRoot,
+      provider,
+      onStepDelta: ({ stepId, text }) => {
+        streamed[stepId] = (streamed[stepId] ?? "") + text;
+      }
+    });
+    if (result.steps[1]?.output !== "- Drafted the brief.") {
+      fail("step outputs did not follow the script");
+    }
+    if (!result.steps.every((step) => streamed[step.stepId] === step.output)) {
+      fail("streamed step deltas did not add up to the step output");
+    }
+
+    const excerpt = result.steps[0]?.excerpts?.[0];
+    const readExcerpt = provider.calls.some((call) => call.prompt.includes("notes.md (lines 1-3)"));
+    if (excerpt?.path !== "notes.md" || !readExcerpt) {
+      fail("step prompts did not include the retrieved excerpts");
+    }
+    if (!(result.usage.inputTokens > 0) || !result.steps.every((step) => step.usage)) {
+      fail("run usage was not tracked");
+    }
+    const overBudget = await runAgent({ prompt, plan, workspaceRoot, provider, maxStepTokens: 10 }).catch(
+      (error) => error
+    );
+    if (!(overBudget instanceof Error) || !overBudget.message.includes("per-step budget")) {
+      fail("per-step token budget was not enforced");
+    }
+
+    const brief = await fs.readFile(path.join(workspaceRoot, "docs", "Brief.md"), "utf8");
+    if (!brief.includes("Launch brief")) {
+      fail("Brief.md was not written from the scripted artifacts");
+    }
+    if (!brief.includes("[[notes.md#L3-L3]]") || brief.includes("missing.md")) {
+      fail("citation markers were not resolved against the workspace docs");
+    }
+    const versions = createVersionStore(
+      path.join(workspaceRoot, "docs"),
+      path.join(workspaceRoot, ".versions")
+    );
+    const briefVersions = await versions.list("Brief.md");
+    if (briefVersions.length !== 1 || briefVersions[0].author !== "run") {
+      fail("artifact write was not recorded in the version history");
+    }
+    await versions.write("notes.md", "# Notes\n\nEdited.\n", { kind: "user", author: "user", reason: "Edit" });
+    const noteVersions = await versions.list("notes.md");
+    const original = await versions.read("notes.md", 1);
+    if (noteVersions.length !== 2 || !original?.content.includes("launch brief")) {
+      fail("the prior version of an edited doc was not kept");
+    }
+    await versions.write("notes.md", original.content, {
+      kind: "user",
+      author: "user",
+      reason: "Restore"
+    });
+
+    await versions.write("Brief.md", `${brief}\nA line added by hand.\n`, {
+      kind: "user",
+      author: "user",
+      reason: "Edit"
+    });
+    const rerun = await runAgent({ prompt, plan, workspaceRoot, provider, versions });
+    const mergedBrief = rerun.artifacts.find((artifact) => artifact.relativePath === "Brief.md");
+    if (!mergedBrief?.merge || !mergedBrief.content.includes("A line added by hand.")) {
+      fail("user edits to an artifact were not merged into the next run");
+    }
+
+    const briefPath = path.join(workspaceRoot, "docs", "Brief.md");
+    const midRun = await runAgent({
+      prompt,
+      plan,
+      workspaceRoot,
+      provider,
+      versions,
+      onStepComplete: (step) => {
+        if (step.stepId === "step-1") {
+          appendFileSync(briefPath, "\nEdited mid-run.\n", "utf8");
+        }
+      }
+    });
+    const midRunBrief = midRun.artifacts.find((artifact) => artifact.relativePath === "Brief.md");
+    if (!midRunBrief?.merge?.changedDuringRun || !midRunBrief.content.includes("Edited mid-run.")) {
+      fail("a doc edited during the run was overwritten instead of merged");
+    }
+
+    const sources = await fs.readFile(path.join(workspaceRoot, "docs", "Sources.md"), "utf8");
+    if (!sources.includes("- [[notes.md#L3-L3]] Lines 3-3: The client wants a launch brief.")) {
+      fail(`Sources.md did not list the cited passage:\n${sources}`);
+    }
+    if (result.citations.length !== 1 || result.sources.join(",") !== "notes.md") {
+      fail("run result did not report the cited sources");
+    }
+    for (const output of ["Next Actions.md", "Open Questions.md", "Sources.md"]) {
+      await fs.access(path.join(workspaceRoot, "docs", output)).catch(() => fail(`${output} missing`));
+    }
+
+    const events = [];
+    const parallelProvider = createMockProvider();
+    const parallelPlan = {
+      ...plan,
+      steps: [
+        { id: "step-1", title: "Read notes", description: "", agent: "Researcher", dependsOn: [] },
+        { id: "step-2", title: "Read goals", description: "", agent: "Researcher", dependsOn: [] },
+        { id: "step-3", title: "Draft", description: "", agent: "Writer", dependsOn: ["step-1", "step-2"] }
+      ]
+    };
+    const parallelResult = await runAgent({
+      prompt,
+      plan: parallelPlan,
+      workspaceRoot,
+      provider: parallelProvider,
+      maxParallelSteps: 2,
+      onStepStart: (step) => events.push(`start:${step.id}`),
+      onStepComplete: (step) => events.push(`done:${step.stepId}`)
+    });
+    if (events.slice(0, 2).join(",") !== "start:step-1,start:step-2") {
+      fail(`independent steps did not start together: ${events.join(", ")}`);
+    }
+    if (events.indexOf("start:step-3") < Math.max(events.indexOf("done:step-1"), events.indexOf("done:step-2"))) {
+      fail(`step-3 started before its dependencies finished: ${events.join(", ")}`);
+    }
+
+    const draftPrompt = parallelProvider.calls.find((call) => call.stepId === "step-3")?.prompt ?? "";
+    if (!draftPrompt.includes("Mock notes for step-1") || !draftPrompt.includes("Mock notes for step-2")) {
+      fail("step-3 prompt did not include the notes of its dependencies");
+    }
+
+    const rerunProvider = createMockProvider();
+    const reusedSteps = [];
+    const partialRerun = await runAgent({
+      prompt,
+      plan: parallelPlan,
+      workspaceRoot,
+      provider: rerunProvider,
+      checkpoints: selectCheckpoints(parallelPlan, parallelResult, "step-2"),
+      onStepReused: (step) => reusedSteps.push(step.stepId)
+    });
+    const rerunSteps = rerunProvider.calls.filter((call) => call.kind === "step");
+    const rerunArtifactPrompt = rerunProvider.calls.find((call) => call.kind === "artifacts")?.prompt ?? "";
+    if (
+      reusedSteps.join() !== "step-1" ||
+      rerunSteps.map((call) => call.stepId).join() !== "step-2,step-3" ||
+      partialRerun.steps.map((step) => step.stepId).join() !== "step-1,step-2,step-3" ||
+      !rerunArtifactPrompt.includes("Mock notes for step-1")
+    ) {
+      fail("re-running a step did not reuse upstream results and invalidate downstream ones");
+    }
+
+    const gatedProvider = createMockProvider();
+    const gatedPlan = {
+      ...parallelPlan,
+      steps: parallelPlan.steps.map((step) =>
+        step.id === "step-1" ? { ...step, requiresApproval: true } : step
+      )
+    };
+    const gated = await runAgent({
+      prompt,
+      plan: gatedPlan,
+      workspaceRoot,
+      provider: gatedProvider,
+      onAwaitApproval: async () => ({ action: "edit", output: "- Reviewer-approved notes." })
+    });
+    const gatedDraft = gatedProvider.calls.find((call) => call.stepId === "step-3")?.prompt ?? "";
+    if (gated.steps[0]?.review !== "edited" || !gatedDraft.includes("Reviewer-approved notes")) {
+      fail("edited notes from an approval gate did not reach later steps");
+    }
+    const rejected = await runAgent({
+      prompt,
+      plan: gatedPlan,
+      workspaceRoot,
+      provider: createMockProvider(),
+      onAwaitApproval: async () => ({ action: "reject", reason: "Off topic" })
+    }).catch((error) => error);
+    if (!(rejected instanceof Error) || !rejected.message.includes("Off topic")) {
+      fail("a rejected step did not stop the run");
+    }
+
+    const askingProvider = createMockProvider({
+      step: ["BLOCKING QUESTION: What is the budget?", "- Budget is $10k.", "- Drafted the brief."]
+    });
+    const asked = [];
+    const answered = await runAgent({
+      prompt,
+      plan,
+      workspaceRoot,
+      provider: askingProvider,
+      clarifications: [{ id: "q-1", question: "Who is the audience?", answer: "Retail buyers" }],
+      onQuestion: async (question) => {
+        asked.push(question);
+        return "About $10k";
+      }
+    });
+    const resumedPrompt = askingProvider.calls[1]?.prompt ?? "";
+    if (
+      asked[0]?.question !== "What is the budget?" ||
+      answered.clarifications.length !== 2 ||
+      !resumedPrompt.includes("A: About $10k") ||
+      !resumedPrompt.includes("A: Retail buyers")
+    ) {
+      fail("a blocking question did not pause the step and resume with the answer");
+    }
+
+    await fs.mkdir(path.join(workspaceRoot, "agents"), { recursive: true });
+    await fs.writeFile(
+      path.join(workspaceRoot, "agents", "financial-analyst.md"),
+      "---\nmodel: analyst-model\noutputs: Budget.md\n---\nCheck every number against the notes.\n",
+      "utf8"
+    );
+    const analystProvider = createMockProvider({
+      plan: [
+        JSON.stringify({
+          interpretedGoal: "Budget review",
+          steps: [{ title: "Check the budget", description: "Review costs.", agent: "Fin" }],
+          agents: [{ name: "Fin", role: "financial analyst" }],
+          outputs: ["Budget.md"],
+          questions: []
+        })
+      ]
+    });
+    const analystPlan = await createPlan({ prompt, workspaceRoot, provider: analystProvider });
+    await runAgent({ prompt, plan: analystPlan, workspaceRoot, provider: analystProvider });
+    const analystCall = analystProvider.calls.find((call) => call.kind === "step");
+    if (
+      analystPlan.agents[0]?.role !== "Financial Analyst" ||
+      !analystProvider.calls[0].prompt.includes("- Financial Analyst (only feeds Budget.md)") ||
+      analystCall?.model !== "analyst-model" ||
+      !analystCall.prompt.includes("Check every number against the notes.")
+    ) {
+      fail("workspace agent archetype was not used for planning and steps");
+    }
+
+    const templatePlan = {
+      ...plan,
+      steps: plan.steps.map((step) => ({ ...step, description: `${step.description} for {{client}}` })),
+      outputs: ["{{ client }} Brief.md", ...plan.outputs.slice(1)]
+    };
+    const incomplete = instantiateTemplate(templatePlan, { client: " " });
+    const instance = instantiateTemplate(templatePlan, { client: "Acme" });
+    if (
+      findTemplateVariables(templatePlan).join() !== "client" ||
+      incomplete.ok ||
+      incomplete.missing.join() !== "client" ||
+      !instance.ok ||
+      instance.plan.outputs[0] !== "Acme Brief.md" ||
+      !instance.plan.steps.every((step) => step.description.endsWith("for Acme"))
+    ) {
+      fail("plan template variables were not filled in");
+    }
+    const prototypeNames = instantiateTemplate(
+      { ...plan, interpretedGoal: "{{toString}} and {{constructor}}" },
+      {}
+    );
+    if (prototypeNames.ok || prototypeNames.missing.join() !== "toString,constructor") {
+      fail("template variables named after object properties were treated as filled");
+    }
+
+    const warnings = [];
+    const repairProvider = createMockProvider({
+      plan: [
+        "Here is the plan you asked for.",
+        JSON.stringify({
+          interpretedGoal: "Launch brief",
+          steps: [{ title: "Research", description: "", agent: "Ghost", dependsOn: [1] }],
+          agents: [{ name: "Res", role: "Researcher" }],
+          outputs: ["Brief.md"]
+        }),
+        JSON.stringify({
+          interpretedGoal: "Launch brief",
+          steps: [{ title: "Research", description: "", agent: "Res" }],
+          agents: [{ name: "Res", role: "Researcher" }],
+          outputs: ["Brief.md"]
+        })
+      ],
+      artifacts: [JSON.stringify({ artifacts: [{ path: "Brief.txt" }] })]
+    });
+    const onWarning = (warning) => warnings.push(warning);
+    const repairedPlan = await createPlan({ prompt, workspaceRoot, provider: repairProvider, onWarning });
+    const repairPrompt = repairProvider.calls[2]?.prompt ?? "";
+    if (
+      repairedPlan.interpretedGoal !== "Launch brief" ||
+      warnings.map((warning) => warning.code).join() !== "invalid_plan,invalid_plan" ||
+      !repairPrompt.includes(`steps[0].agent: "Ghost" is not one of the plan's agents`) ||
+      !repairPrompt.includes("steps[0].dependsOn[0]: step 1 can only depend on earlier steps")
+    ) {
+      fail("an invalid plan was not repaired with its validation errors");
+    }
+    warnings.length = 0;
+    await runAgent({ prompt, plan: repairedPlan, workspaceRoot, provider: repairProvider, onWarning });
+    const artifactCalls = repairProvider.calls.filter((call) => call.kind === "artifacts");
+    const fallbackWarning = warnings.find((warning) => warning.code === "artifacts_fallback");
+    if (
+      artifactCalls.length !== 3 ||
+      !fallbackWarning?.issues?.some((issue) => issue.path === "artifacts[0].content")
+    ) {
+      fail("invalid artifacts did not fall back with a warning after repair attempts");
+    }
+
+    const failures = [];
+    const retryingProvider = createMockProvider({
+      step: [
+        { ok: false, errors: ["429 rate limit exceeded"] },
+        "- Found launch context in notes.md.",
+        { ok: false, errors: ["Unsupported document format"] }
+      ]
+    });
+    const skipPlan = {
+      ...plan,
+      steps: plan.steps.map((step, index) => (index === 1 ? { ...step, onFailure: "skip" } : step))
+    };
+    const skippedRun = await runAgent({
+      prompt,
+      plan: skipPlan,
+      workspaceRoot,
+      provider: retryingProvider,
+      retryPolicy: { initialDelayMs: 0 },
+      onStepAttemptFailed: (failure) => failures.push(failure)
+    });
+    if (
+      failures.map((failure) => `${failure.kind}:${failure.next}`).join() !==
+        "transient:retry,fatal:skip" ||
+      skippedRun.steps[0].attempts !== 2 ||
+      skippedRun.steps[1].skipped?.kind !== "fatal"
+    ) {
+      fail("step failures were not retried or skipped according to the step policy");
+    }
+    const refusalError = await runAgent({
+      prompt,
+      plan,
+      workspaceRoot,
+      provider: createMockProvider({ step: [{ ok: false, errors: ["I can't help with that."] }] }),
+      retryPolicy: { initialDelayMs: 0 }
+    }).catch((error) => error);
+    if (!(refusalError instanceof Error) || !refusalError.message.includes("(refusal) after 1 attempt:")) {
+      fail("a refused step was retried or did not stop the run");
+    }
+    const refusedReplyError = await runAgent({
+      prompt,
+      plan,
+      workspaceRoot,
+      provider: createMockProvider({ step: ["I'm sorry, but I can't help with that request."] }),
+      retryPolicy: { initialDelayMs: 0 }
+    }).catch((error) => error);
+    if (!(refusedReplyError instanceof Error) || !refusedReplyError.message.includes("(refusal)")) {
+      fail("a step whose reply was a refusal was saved as its notes");
+    }
+    warnings.length = 0;
+    await runAgent({
+      prompt,
+      plan,
+      workspaceRoot,
+      provider: createMockProvider({ artifacts: ["I cannot assist with writing these files."] }),
+      onWarning
+    });
+    if (!warnings.some((warning) => warning.code === "artifacts_fallback")) {
+      fail("an artifact reply that was a refusal did not fall back to template artifacts");
+    }
+    if (isRefusalReply("I'm sorry to report that sales fell.\n\n- Q3 revenue was down 4%.")) {
+      fail("ordinary notes that open with an apology were treated as a refusal");
+    }
+
+    const messages = [];
+    const finished = new Promise((resolve) => {
+      const runner = createJobRunner({
+        provider: createMockProvider(),
+        send: (message) => {
+          messages.push(message.type);
+          if (message.type === "awaiting_approval") {
+            runner.handle({
+              type: "approval",
+              runId: message.runId,
+              stepId: message.result.stepId,
+              decision: { action: "approve" }
+            });
+          }
+          if (message.type === "done" || message.type === "failed") {
+            resolve(message);
+          }
+        }
+      });
+      runner.handle({
+        type: "start",
+        job: {
+          runId: "job-1",
+          prompt,
+          plan: gatedPlan,
+          workspaceRoot,
+          clarifications: [],
+          priorArtifacts: [],
+          startingStepIndex: 0,
+          checkpoints: []
+        }
+      });
+    });
+    const jobResult = await finished;
+    if (jobResult.type !== "done" || !messages.includes("awaiting_approval")) {
+      fail(`the job runner did not complete an approved job: ${messages.join(", ")}`);
+    }
+
+    const writes = [];
+    const slowWrite = withWorkspaceLock(workspaceRoot, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      writes.push("first");
+    });
+    await Promise.all([slowWrite, withWorkspaceLock(workspaceRoot, async () => writes.push("second"))]);
+    if (writes.join() !== "first,second") {
+      fail("workspace writes were not serialized");
+    }
+    // A lock file left by a process that has exited must not block later writes.
+    const lockPath = path.join(workspaceRoot, ".workspace.lock");
+    await fs.writeFile(lockPath, "2147483646 stale", "utf8");
+    await withWorkspaceLock(workspaceRoot, async () => writes.push("after stale lock"));
+    const lockLeft = await fs.stat(lockPath).then(() => true, () => false);
+    if (writes[2] !== "after stale lock" || lockLeft) {
+      fail("workspace lock file was not taken over or not released");
+    }
+
+    const cyclicPlan = {
+      ...parallelPlan,
+      steps: parallelPlan.steps.map((step) =>
+        step.id === "step-1" ? { ...step, dependsOn: ["step-3"] } : step
+      )
+    };
+    const cycleError = await runAgent({ prompt, plan: cyclicPlan, workspaceRoot, provider }).catch(
+      (error) => error
+    );
+    if (!(cycleError instanceof Error) || !cycleError.message.includes("cycle")) {
+      fail("cyclic plan was not rejected");
+    }
+
+    const csv = convertToMarkdown("csv", Buffer.from('name;note\nAda;"says ""hi"""\n'));
+    if (csv.markdown !== '| name | note |\n| --- | --- |\n| Ada | says "hi" |') {
+      fail("CSV import did not produce a markdown table");
+    }
+    const html = convertToMarkdown(
+      "html",
+      Buffer.from("<h1>Brief</h1><p>Launch <b>soon</b><ul><li>one<li>two</ul><script>x</script>")
+    );
+    if (html.markdown !== "# Brief\n\nLaunch **soon**\n\n- one\n- two") {
+      fail("HTML import did not produce the expected markdown");
+    }
+    const linked = convertToMarkdown(
+      "html",
+      Buffer.from(
+        '<p><a href="pricing.html">Pricing</a>, <a href="#top">top</a>, ' +
+          '<a href="javascript:go()">go</a> and <a href="team page.html">Team</a></p>'
+      )
+    );
+    if (linked.markdown !== "[Pricing](pricing.html), top, go and [Team](team%20page.html)") {
+      fail("HTML import did not keep relative links");
+    }
+    const based = convertToMarkdown(
+      "html",
+      Buffer.from('<base href="https://example.com/docs/"><p><a href="../faq">FAQ</a></p>')
+    );
+    if (based.markdown !== "[FAQ](https://example.com/faq)") {
+      fail("HTML import did not resolve relative links against the page's base URL");
+    }
+    const threaded = await convertInThread("csv", Buffer.from("a,b\n1,2\n"));
+    if (threaded.markdown !== "| a | b |\n| --- | --- |\n| 1 | 2 |") {
+      fail("CSV import in a worker thread did not produce a markdown table");
+    }
+    const threadError = await convertInThread("docx", Buffer.from("not a zip")).catch(
+      (error) => error
+    );
+    if (!(threadError instanceof Error)) {
+      fail("unreadable DOCX import in a worker thread was not rejected");
+    }
+    const slowCsv = Buffer.from("a,b\n1,2\n".repeat(200_000));
+    const timeoutError = await convertInThread("csv", slowCsv, { timeoutMs: 1 }).catch(
+      (error) => error
+    );
+    if (!(timeoutError instanceof Error) || !timeoutError.message.includes("was stopped")) {
+      fail("a conversion thread past its deadline was not stopped");
+    }
+    const bomb = deflateSync(Buffer.alloc(65 * 1024 * 1024));
+    const bombPdf = Buffer.concat([
+      Buffer.from(`%PDF-1.7\n1 0 obj\n<< /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode `),
+      Buffer.from(`/Length ${bomb.length} >>\nstream\n`),
+      bomb,
+      Buffer.from("\nendstream\nendobj\n%%EOF\n")
+    ]);
+    const bombError = (() => {
+      try {
+        convertToMarkdown("pdf", bombPdf);
+      } catch (error) {
+        return error;
+      }
+      return null;
+    })();
+    if (bombError instanceof RangeError || !bombError?.message.includes("expands to more than")) {
+      fail("an oversized PDF stream was not rejected as a conversion error");
+    }
+    const imported = `${formatProvenance({
+      source: "report.pdf",
+      format: "pdf",
+      importedAt: new Date().toISOString(),
+      pages: 2
+    })}## Page 1\n\nIntro\n\n## Page 2\n\nFindings\n`;
+    if (readProvenance(imported)?.source !== "report.pdf" || pageAtLine(imported, 13) !== 2) {
+      fail("imported doc provenance was not read back");
+    }
+
+    const bundle = {
+      goal: "Write a launch brief",
+      plan: parallelPlan,
+      date: new Date().toISOString(),
+      docs: [
+        { path: "Brief.md", content: "# Brief\n\nSee [next steps](Next%20Actions.md).\n" },
+        { path: "Next Actions.md", content: "# Next Actions\n\n- Ship\n" }
+      ]
+    };
+    const page = exportBundle("html", bundle).data.toString("utf8");
+    if (!page.includes("Write a launch brief") || !page.includes('href="#doc-next-actions"')) {
+      fail("HTML export is missing the cover page or links between bundle files");
+    }
+    const archive = readZip(exportBundle("zip", bundle).data);
+    if (!archive.read("brief.html")?.toString("utf8").includes('href="next-actions.html"')) {
+      fail("ZIP export did not link its pages");
+    }
+    if (!readZip(exportBundle("docx", bundle).data).read("word/document.xml")) {
+      fail("DOCX export has no document part");
+    }
+    const percentBundle = {
+      ...bundle,
+      docs: [
+        { path: "Brief.md", content: "# Brief\n\n[50% YoY](report%.md) and [[100% plan]]\n" },
+        { path: "report%.md", content: "# Report\n" }
+      ]
+    };
+    if (!exportBundle("html", percentBundle).data.toString("utf8").includes("50% YoY</a>")) {
+      fail("HTML export did not link a doc whose name has a bare %");
+    }
+    exportBundle("zip", percentBundle);
+
+    // GET /api/files needs `viewer` and saving a doc needs `editor`.
+    const { hasRole } = await tsImport("../apps/api/src/auth.ts", import.meta.url);
+    const account = (roles) => ({ id: "u", username: "u", roles, createdAt: "" });
+    if (!hasRole(account(["editor"]), "viewer")) {
+      fail("an editor could not list files");
+    }
+    if (!hasRole(account(["run-launcher"]), "editor")) {
+      fail("a run-launcher could not save a doc");
+    }
+    if (hasRole(account(["editor"]), "run-launcher") || hasRole(account(["viewer"]), "editor")) {
+      fail("a role was granted permissions above its rank");
+    }
+
+    console.log("OK");
+  } finally {
+    await fs.rm(workspaceRoot, { recursive: true, force: true });
+  }
+};
+
+await run();